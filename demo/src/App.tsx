@@ -1,16 +1,20 @@
 import React, { useState, useEffect, useRef } from "react";
 import { BLEDeviceManager } from "@tomquist/hmjs-ble";
+import { B2500Simulator } from "@tomquist/hmjs-simulator";
 import {
   DeviceInfo,
   RuntimeInfo,
   CellInfo,
   MQTTConfig,
+  WifiInfo,
+  ModuleFirmwareInfo,
   HMDeviceProtocol,
 } from "@tomquist/hmjs-protocol";
 import {
   DisclaimerModal,
   BluetoothUnsupportedModal,
   ConnectionPanel,
+  NearbyDevicesPanel,
   DeviceInfoTab,
   RuntimeTab,
   CellInfoTab,
@@ -62,6 +66,8 @@ const App: React.FC = () => {
   const [deviceInfo, setDeviceInfo] = useState<DeviceInfo | null>(null);
   const [infoStatus, setInfoStatus] = useState("-");
   const [lastUpdateTime, setLastUpdateTime] = useState("-");
+  const [wifiInfo, setWifiInfo] = useState<WifiInfo | null>(null);
+  const [moduleInfo, setModuleInfo] = useState<ModuleFirmwareInfo | null>(null);
 
   // Runtime info state
   const [runtimeInfo, setRuntimeInfo] = useState<RuntimeInfo | null>(null);
@@ -78,6 +84,9 @@ const App: React.FC = () => {
   // Device manager ref to maintain instance between renders
   const deviceManagerRef = useRef<BLEDeviceManager | null>(null);
 
+  // Simulated device, created on first use
+  const simulatorRef = useRef<B2500Simulator | null>(null);
+
   // Format hex dump for display (similar to hexdump -C)
   const formatHexDump = (data: Uint8Array): string => {
     const lines: string[] = [];
@@ -152,8 +161,12 @@ const App: React.FC = () => {
     const deviceManager = deviceManagerRef.current;
 
     // Set up event listeners
+    deviceManager.on("stateChange", ({ previous, next, reason }) => {
+      logFunction(`Connection state: ${previous} -> ${next} (${reason})`);
+      setIsConnected(next === "connected");
+    });
+
     deviceManager.on("connect", (device: BluetoothDevice) => {
-      setIsConnected(true);
       setConnectionStatus(`Connected to ${device.name || "device"}`);
 
       // Update the selected device if needed
@@ -167,20 +180,7 @@ const App: React.FC = () => {
       // Automatically get device info
       setTimeout(async () => {
         try {
-          // Log connection state for debugging
-          logFunction(
-            `Connection state before getDeviceInfo: isConnected=${deviceManager.isConnected()}`,
-          );
-
           await deviceManager.getDeviceInfo();
-
-          // Ensure connection state remains true even if the internal flag gets reset
-          setIsConnected(true);
-
-          // Log connection state after successful device info retrieval
-          logFunction(
-            `Connection state after getDeviceInfo: isConnected=${deviceManager.isConnected()}`,
-          );
         } catch (error) {
           logFunction(
             `Error getting initial device info: ${error instanceof Error ? error.message : String(error)}`,
@@ -190,11 +190,12 @@ const App: React.FC = () => {
     });
 
     deviceManager.on("disconnect", () => {
-      setIsConnected(false);
       setConnectionStatus("Disconnected");
 
       // Clear all device data when device disconnects
       setDeviceInfo(null);
+      setWifiInfo(null);
+      setModuleInfo(null);
       setRuntimeInfo(null);
       setCellInfo(null);
       setInfoStatus("-");
@@ -204,7 +205,6 @@ const App: React.FC = () => {
     });
 
     deviceManager.on("reconnect", (device: BluetoothDevice) => {
-      setIsConnected(true);
       setConnectionStatus(`Reconnected to ${device.name || "device"}`);
 
       setSelectedDevice({
@@ -214,6 +214,16 @@ const App: React.FC = () => {
       });
     });
 
+    deviceManager.on("reconnecting", ({ attempt, delay }) => {
+      setConnectionStatus(
+        `Reconnecting (attempt ${attempt}, in ${Math.round(delay / 1000)}s)...`,
+      );
+    });
+
+    deviceManager.on("reconnectFailed", ({ attempts }) => {
+      setConnectionStatus(`Reconnect failed after ${attempts} attempts`);
+    });
+
     deviceManager.on("error", (error: Error) => {
       logFunction(`Error: ${error.message}`);
     });
@@ -225,6 +235,16 @@ const App: React.FC = () => {
       setLastUpdateTime(new Date().toLocaleTimeString());
     });
 
+    deviceManager.on("wifiInfo", (info: WifiInfo) => {
+      logFunction("Received WiFi info: " + JSON.stringify(info));
+      setWifiInfo(info);
+    });
+
+    deviceManager.on("moduleInfo", (info: ModuleFirmwareInfo) => {
+      logFunction("Received module info: " + JSON.stringify(info));
+      setModuleInfo(info);
+    });
+
     deviceManager.on("runtimeInfo", (info: RuntimeInfo) => {
       logFunction("Received runtime info");
       setRuntimeInfo(info);
@@ -287,13 +307,13 @@ const App: React.FC = () => {
   // Scan for devices and connect automatically
   const scanForDevices = async () => {
     try {
-      // If already connected, disconnect first
-      if (isConnected && deviceManagerRef.current) {
-        await deviceManagerRef.current.disconnect();
-      }
+      // End any current session (connected, reconnecting or failed) first
+      deviceManagerRef.current?.disconnect();
 
       // Clear all device data when starting a new scan
       setDeviceInfo(null);
+      setWifiInfo(null);
+      setModuleInfo(null);
       setRuntimeInfo(null);
       setCellInfo(null);
       setInfoStatus("-");
@@ -346,6 +366,45 @@ const App: React.FC = () => {
     }
   };
 
+  // Connect to a simulated device that runs in the page
+  const connectToSimulator = async () => {
+    // End any current session (connected, reconnecting or failed) first
+    deviceManagerRef.current?.disconnect();
+
+    setDeviceInfo(null);
+    setWifiInfo(null);
+    setModuleInfo(null);
+    setRuntimeInfo(null);
+    setCellInfo(null);
+    setInfoStatus("Connecting...");
+    setLastUpdateTime("-");
+
+    if (!simulatorRef.current) {
+      simulatorRef.current = new B2500Simulator();
+      simulatorRef.current.setSolarPower(350, 250);
+      simulatorRef.current.start();
+    }
+
+    setConnectionStatus("Connecting to simulated device...");
+    setIsScanning(true);
+
+    try {
+      await deviceManagerRef.current?.connect(undefined, {
+        bluetooth: simulatorRef.current.bluetooth.asBluetooth(),
+      });
+    } catch (error) {
+      addLog(
+        `Simulator connection failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      setConnectionStatus("Connection failed");
+    }
+
+    setIsScanning(false);
+  };
+
+  // Stop the simulated device on unmount
+  useEffect(() => () => simulatorRef.current?.stop(), []);
+
   // Disconnect from device
   const disconnectFromDevice = () => {
     if (deviceManagerRef.current) {
@@ -353,13 +412,14 @@ const App: React.FC = () => {
 
       // Clear all device data when disconnecting
       setDeviceInfo(null);
+      setWifiInfo(null);
+      setModuleInfo(null);
       setRuntimeInfo(null);
       setCellInfo(null);
       setInfoStatus("-");
       setLastUpdateTime("-");
       setSelectedDevice(null);
       setConnectionStatus("Disconnected");
-      setIsConnected(false);
       setRawResponses([]);
     }
   };
@@ -372,37 +432,8 @@ const App: React.FC = () => {
       if (deviceManagerRef.current) {
         const deviceManager = deviceManagerRef.current;
 
-        // Log connection state before request
-        addLog(
-          `Connection state before getDeviceInfo: isConnected=${deviceManager.isConnected()}`,
-        );
-
-        // If device is not connected according to device manager but our state says it is, try to reconnect
-        if (
-          !deviceManager.isConnected() &&
-          isConnected &&
-          (deviceManager as any)._selectedDevice
-        ) {
-          addLog("Connection state mismatch - attempting to reconnect...");
-          const savedDevice = (deviceManager as any)._selectedDevice.device;
-          try {
-            await deviceManager.connect(savedDevice);
-            addLog("Reconnection successful");
-          } catch (reconnectError) {
-            addLog(
-              `Reconnection failed: ${reconnectError instanceof Error ? reconnectError.message : String(reconnectError)}`,
-            );
-            setIsConnected(false);
-            setInfoStatus("Failed - Disconnected");
-            throw new Error("Failed to reconnect to device");
-          }
-        }
-
         addLog(`Sending getDeviceInfo command...`);
         await deviceManager.getDeviceInfo();
-
-        // Always ensure our connection state is synchronized
-        setIsConnected(true);
       }
     } catch (error) {
       addLog(
@@ -412,45 +443,45 @@ const App: React.FC = () => {
     }
   };
 
+  // Get WiFi info
+  const getWifiInfo = async () => {
+    try {
+      if (deviceManagerRef.current) {
+        addLog(`Sending getWifiInfo command...`);
+        await deviceManagerRef.current.getWifiInfo();
+      }
+    } catch (error) {
+      addLog(
+        `Error getting WiFi info: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  };
+
+  // Get FC41D module info
+  const getModuleInfo = async () => {
+    try {
+      if (deviceManagerRef.current) {
+        addLog(`Sending getModuleInfo command...`);
+        await deviceManagerRef.current.getModuleInfo();
+      }
+    } catch (error) {
+      addLog(
+        `Error getting module info: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  };
+
   // Get runtime info
   const getRuntimeInfo = async () => {
     try {
       if (deviceManagerRef.current) {
         const deviceManager = deviceManagerRef.current;
 
-        // Log connection state before request
-        addLog(
-          `Connection state before getRuntimeInfo: isConnected=${deviceManager.isConnected()}`,
-        );
-
-        // If device is not connected according to device manager but our state says it is, try to reconnect
-        if (
-          !deviceManager.isConnected() &&
-          isConnected &&
-          (deviceManager as any)._selectedDevice
-        ) {
-          addLog("Connection state mismatch - attempting to reconnect...");
-          const savedDevice = (deviceManager as any)._selectedDevice.device;
-          try {
-            await deviceManager.connect(savedDevice);
-            addLog("Reconnection successful");
-          } catch (reconnectError) {
-            addLog(
-              `Reconnection failed: ${reconnectError instanceof Error ? reconnectError.message : String(reconnectError)}`,
-            );
-            setIsConnected(false);
-            throw new Error("Failed to reconnect to device");
-          }
-        }
-
         addLog(`Sending getRuntimeInfo command...`);
         await deviceManager.getRuntimeInfo();
 
         // Log success
         addLog(`Runtime info request successful`);
-
-        // Always ensure our connection state is synchronized
-        setIsConnected(true);
       }
     } catch (error) {
       addLog(
@@ -465,39 +496,11 @@ const App: React.FC = () => {
       if (deviceManagerRef.current) {
         const deviceManager = deviceManagerRef.current;
 
-        // Log connection state before request
-        addLog(
-          `Connection state before getCellInfo: isConnected=${deviceManager.isConnected()}`,
-        );
-
-        // If device is not connected according to device manager but our state says it is, try to reconnect
-        if (
-          !deviceManager.isConnected() &&
-          isConnected &&
-          (deviceManager as any)._selectedDevice
-        ) {
-          addLog("Connection state mismatch - attempting to reconnect...");
-          const savedDevice = (deviceManager as any)._selectedDevice.device;
-          try {
-            await deviceManager.connect(savedDevice);
-            addLog("Reconnection successful");
-          } catch (reconnectError) {
-            addLog(
-              `Reconnection failed: ${reconnectError instanceof Error ? reconnectError.message : String(reconnectError)}`,
-            );
-            setIsConnected(false);
-            throw new Error("Failed to reconnect to device");
-          }
-        }
-
         addLog(`Sending getCellInfo command...`);
         await deviceManager.getCellInfo();
 
         // Log success
         addLog(`Cell info request successful`);
-
-        // Always ensure our connection state is synchronized
-        setIsConnected(true);
       }
     } catch (error) {
       addLog(
@@ -531,39 +534,11 @@ const App: React.FC = () => {
       if (deviceManagerRef.current) {
         const deviceManager = deviceManagerRef.current;
 
-        // Log connection state before request
-        addLog(
-          `Connection state before setWifiConfig: isConnected=${deviceManager.isConnected()}`,
-        );
-
-        // If device is not connected according to device manager but our state says it is, try to reconnect
-        if (
-          !deviceManager.isConnected() &&
-          isConnected &&
-          (deviceManager as any)._selectedDevice
-        ) {
-          addLog("Connection state mismatch - attempting to reconnect...");
-          const savedDevice = (deviceManager as any)._selectedDevice.device;
-          try {
-            await deviceManager.connect(savedDevice);
-            addLog("Reconnection successful");
-          } catch (reconnectError) {
-            addLog(
-              `Reconnection failed: ${reconnectError instanceof Error ? reconnectError.message : String(reconnectError)}`,
-            );
-            setIsConnected(false);
-            throw new Error("Failed to reconnect to device");
-          }
-        }
-
         addLog(`Sending setWifiConfig command...`);
         await deviceManager.setWifiConfig(ssid, password);
 
         addLog("WiFi configuration sent successfully");
         alert("WiFi configuration set successfully");
-
-        // Always ensure our connection state is synchronized
-        setIsConnected(true);
       }
     } catch (error) {
       addLog(
@@ -600,39 +575,11 @@ const App: React.FC = () => {
       if (deviceManagerRef.current) {
         const deviceManager = deviceManagerRef.current;
 
-        // Log connection state before request
-        addLog(
-          `Connection state before setMqttConfig: isConnected=${deviceManager.isConnected()}`,
-        );
-
-        // If device is not connected according to device manager but our state says it is, try to reconnect
-        if (
-          !deviceManager.isConnected() &&
-          isConnected &&
-          (deviceManager as any)._selectedDevice
-        ) {
-          addLog("Connection state mismatch - attempting to reconnect...");
-          const savedDevice = (deviceManager as any)._selectedDevice.device;
-          try {
-            await deviceManager.connect(savedDevice);
-            addLog("Reconnection successful");
-          } catch (reconnectError) {
-            addLog(
-              `Reconnection failed: ${reconnectError instanceof Error ? reconnectError.message : String(reconnectError)}`,
-            );
-            setIsConnected(false);
-            throw new Error("Failed to reconnect to device");
-          }
-        }
-
         addLog(`Sending setMqttConfig command...`);
         await deviceManager.setMqttConfig(config);
 
         addLog("MQTT configuration sent successfully");
         alert("MQTT configuration set successfully");
-
-        // Always ensure our connection state is synchronized
-        setIsConnected(true);
       }
     } catch (error) {
       addLog(
@@ -655,39 +602,11 @@ const App: React.FC = () => {
       if (deviceManagerRef.current) {
         const deviceManager = deviceManagerRef.current;
 
-        // Log connection state before request
-        addLog(
-          `Connection state before resetMqttConfig: isConnected=${deviceManager.isConnected()}`,
-        );
-
-        // If device is not connected according to device manager but our state says it is, try to reconnect
-        if (
-          !deviceManager.isConnected() &&
-          isConnected &&
-          (deviceManager as any)._selectedDevice
-        ) {
-          addLog("Connection state mismatch - attempting to reconnect...");
-          const savedDevice = (deviceManager as any)._selectedDevice.device;
-          try {
-            await deviceManager.connect(savedDevice);
-            addLog("Reconnection successful");
-          } catch (reconnectError) {
-            addLog(
-              `Reconnection failed: ${reconnectError instanceof Error ? reconnectError.message : String(reconnectError)}`,
-            );
-            setIsConnected(false);
-            throw new Error("Failed to reconnect to device");
-          }
-        }
-
         addLog(`Sending resetMqttConfig command...`);
         await deviceManager.resetMqttConfig();
 
         addLog("MQTT configuration reset successfully");
         alert("MQTT configuration reset successfully");
-
-        // Always ensure our connection state is synchronized
-        setIsConnected(true);
       }
     } catch (error) {
       addLog(
@@ -825,11 +744,14 @@ const App: React.FC = () => {
         selectedDevice={selectedDevice}
         allowAnyDevice={allowAnyDevice}
         onScan={scanForDevices}
+        onConnectSimulator={connectToSimulator}
         onDisconnect={disconnectFromDevice}
         onAutoReconnectChange={setAutoReconnect}
         onAllowAnyDeviceChange={setAllowAnyDevice}
       />
 
+      <NearbyDevicesPanel allowAnyDevice={allowAnyDevice} onLog={addLog} />
+
       <div className="tabs">
         <button
           className={`tab-button ${activeTab === TabType.DeviceInfo ? "active" : ""}`}
@@ -867,10 +789,14 @@ const App: React.FC = () => {
         {activeTab === TabType.DeviceInfo && (
           <DeviceInfoTab
             deviceInfo={deviceInfo}
+            wifiInfo={wifiInfo}
+            moduleInfo={moduleInfo}
             infoStatus={infoStatus}
             lastUpdateTime={lastUpdateTime}
             isConnected={isConnected}
             onGetInfo={getDeviceInfo}
+            onGetWifiInfo={getWifiInfo}
+            onGetModuleInfo={getModuleInfo}
           />
         )}
 
@@ -1,5 +1,5 @@
 import React from "react";
-import { CellInfo } from "@tomquist/hmjs-protocol";
+import { CellInfo, CellInfoFormat } from "@tomquist/hmjs-protocol";
 
 interface CellInfoTabProps {
   cellInfo: CellInfo | null;
@@ -50,9 +50,16 @@ const CellInfoTab: React.FC<CellInfoTabProps> = ({
                 <strong>Temperature:</strong> {cellInfo.temperature1}°C /{" "}
                 {cellInfo.temperature2}°C
               </div>
-              <div>
-                <strong>Number of Cells:</strong> {cellInfo.cellVoltages.length}
-              </div>
+              {cellInfo.format === CellInfoFormat.Summary ? (
+                <div>
+                  <strong>Voltage:</strong>{" "}
+                  {((cellInfo.voltage ?? 0) / 1000).toFixed(3)} V
+                </div>
+              ) : (
+                <div>
+                  <strong>Number of Cells:</strong> {cellInfo.cellCount}
+                </div>
+              )}
             </div>
 
             {/* Statistics */}
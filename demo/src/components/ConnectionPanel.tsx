@@ -14,6 +14,7 @@ interface ConnectionPanelProps {
   selectedDevice: FoundDevice | null;
   allowAnyDevice: boolean;
   onScan: () => void;
+  onConnectSimulator: () => void;
   onDisconnect: () => void;
   onAutoReconnectChange: (checked: boolean) => void;
   onAllowAnyDeviceChange: (checked: boolean) => void;
@@ -27,6 +28,7 @@ const ConnectionPanel: React.FC<ConnectionPanelProps> = ({
   selectedDevice,
   allowAnyDevice,
   onScan,
+  onConnectSimulator,
   onDisconnect,
   onAutoReconnectChange,
   onAllowAnyDeviceChange,
@@ -46,6 +48,9 @@ const ConnectionPanel: React.FC<ConnectionPanelProps> = ({
         <button onClick={onDisconnect} disabled={!isConnected}>
           Disconnect
         </button>
+        <button onClick={onConnectSimulator} disabled={isScanning}>
+          Connect to Simulated Device
+        </button>
       </div>
       <div className="current-device">
         {isConnected && selectedDevice ? (
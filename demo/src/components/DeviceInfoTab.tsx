@@ -1,20 +1,45 @@
 import React from "react";
-import { DeviceInfo } from "@tomquist/hmjs-protocol";
+import {
+  DeviceInfo,
+  WifiInfo,
+  ModuleFirmwareInfo,
+} from "@tomquist/hmjs-protocol";
 
 interface DeviceInfoTabProps {
   deviceInfo: DeviceInfo | null;
+  wifiInfo: WifiInfo | null;
+  moduleInfo: ModuleFirmwareInfo | null;
   infoStatus: string;
   lastUpdateTime: string;
   isConnected: boolean;
   onGetInfo: () => void;
+  onGetWifiInfo: () => void;
+  onGetModuleInfo: () => void;
 }
 
+const ExtraValues: React.FC<{ values: Record<string, string> }> = ({
+  values,
+}) => (
+  <>
+    {Object.entries(values).map(([key, value]) => (
+      <div className="info-row" key={key}>
+        <span className="info-label">{key}:</span>
+        <span className="info-value">{value}</span>
+      </div>
+    ))}
+  </>
+);
+
 const DeviceInfoTab: React.FC<DeviceInfoTabProps> = ({
   deviceInfo,
+  wifiInfo,
+  moduleInfo,
   infoStatus,
   lastUpdateTime,
   isConnected,
   onGetInfo,
+  onGetWifiInfo,
+  onGetModuleInfo,
 }) => {
   return (
     <div id="device-info-tab" className="tab-pane active">
@@ -54,6 +79,62 @@ const DeviceInfoTab: React.FC<DeviceInfoTabProps> = ({
               <span className="info-label">MAC Address:</span>
               <span className="info-value">{deviceInfo.mac || "Unknown"}</span>
             </div>
+            <div className="info-row">
+              <span className="info-label">Firmware Version:</span>
+              <span className="info-value">
+                {deviceInfo.firmwareVersion || "Unknown"}
+              </span>
+            </div>
+            <div className="info-row">
+              <span className="info-label">Hardware Version:</span>
+              <span className="info-value">
+                {deviceInfo.hardwareVersion || "Unknown"}
+              </span>
+            </div>
+            {Object.entries(deviceInfo.extra).map(([key, value]) => (
+              <div className="info-row" key={key}>
+                <span className="info-label">{key}:</span>
+                <span className="info-value">{value}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <h3>WiFi Module</h3>
+        <button onClick={onGetWifiInfo} disabled={!isConnected}>
+          Get WiFi Info
+        </button>
+        {wifiInfo && (
+          <div className="device-info">
+            <div className="info-row">
+              <span className="info-label">SSID:</span>
+              <span className="info-value">{wifiInfo.ssid || "Unknown"}</span>
+            </div>
+            <div className="info-row">
+              <span className="info-label">Signal:</span>
+              <span className="info-value">
+                {wifiInfo.signal !== undefined
+                  ? `${wifiInfo.signal} dBm`
+                  : "Unknown"}
+              </span>
+            </div>
+            <ExtraValues values={wifiInfo.values} />
+          </div>
+        )}
+
+        <h3>FC41D Firmware</h3>
+        <button onClick={onGetModuleInfo} disabled={!isConnected}>
+          Get Module Info
+        </button>
+        {moduleInfo && (
+          <div className="device-info">
+            <div className="info-row">
+              <span className="info-label">Version:</span>
+              <span className="info-value">
+                {moduleInfo.version || "Unknown"}
+              </span>
+            </div>
+            <ExtraValues values={moduleInfo.values} />
           </div>
         )}
       </div>
@@ -0,0 +1,94 @@
+import React, { useEffect, useRef, useState } from "react";
+import { AdvertisementScanner, Advertisement } from "@tomquist/hmjs-ble";
+
+interface NearbyDevicesPanelProps {
+  allowAnyDevice: boolean;
+  onLog: (message: string) => void;
+}
+
+const formatDbm = (value: number | null) =>
+  value === null ? "-" : `${value} dBm`;
+
+const NearbyDevicesPanel: React.FC<NearbyDevicesPanelProps> = ({
+  allowAnyDevice,
+  onLog,
+}) => {
+  const scannerRef = useRef<AdvertisementScanner | null>(null);
+  const [isScanning, setIsScanning] = useState(false);
+  const [devices, setDevices] = useState<Advertisement[]>([]);
+
+  const stopScan = () => {
+    scannerRef.current?.stop();
+    scannerRef.current = null;
+    setIsScanning(false);
+    setDevices([]);
+  };
+
+  const startScan = async () => {
+    const scanner = new AdvertisementScanner({
+      acceptAllDevices: allowAnyDevice,
+    });
+    const refresh = () => setDevices(scanner.getDevices());
+    scanner.on("advertisement", refresh);
+    scanner.on("deviceLost", (advertisement) => {
+      onLog(`Lost ${advertisement.name || advertisement.id}`);
+      refresh();
+    });
+    scanner.on("deviceFound", (advertisement) =>
+      onLog(`Found ${advertisement.name || advertisement.id} nearby`),
+    );
+
+    try {
+      await scanner.start();
+      scannerRef.current = scanner;
+      setIsScanning(true);
+    } catch (error) {
+      onLog(
+        `Nearby scan failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  };
+
+  // Stop scanning when the filter changes or the panel unmounts
+  useEffect(() => stopScan, [allowAnyDevice]);
+
+  return (
+    <div className="nearby-devices">
+      <div className="nearby-devices-header">
+        <h3>Nearby Devices</h3>
+        <button onClick={isScanning ? stopScan : startScan}>
+          {isScanning ? "Stop Watching" : "Watch Nearby Devices"}
+        </button>
+      </div>
+      {isScanning && devices.length === 0 && (
+        <p className="nearby-devices-empty">Listening for advertisements...</p>
+      )}
+      {devices.length > 0 && (
+        <table className="info-table">
+          <thead>
+            <tr>
+              <th>Name</th>
+              <th>ID</th>
+              <th>RSSI</th>
+              <th>TX Power</th>
+              <th>Last Seen</th>
+            </tr>
+          </thead>
+          <tbody>
+            {devices.map((device) => (
+              <tr key={device.id}>
+                <td>{device.name || "Unnamed Device"}</td>
+                <td>{device.id}</td>
+                <td>{formatDbm(device.rssi)}</td>
+                <td>{formatDbm(device.txPower)}</td>
+                <td>{new Date(device.lastSeen).toLocaleTimeString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default NearbyDevicesPanel;
@@ -1,5 +1,13 @@
 import React from "react";
-import { RuntimeInfo } from "@tomquist/hmjs-protocol";
+import {
+  HMDeviceProtocol,
+  Measurement,
+  RuntimeInfo,
+} from "@tomquist/hmjs-protocol";
+
+const protocol = new HMDeviceProtocol();
+
+const formatMeasurement = ({ value, unit }: Measurement) => `${value}${unit}`;
 
 interface RuntimeTabProps {
   runtimeInfo: RuntimeInfo | null;
@@ -12,6 +20,12 @@ const RuntimeTab: React.FC<RuntimeTabProps> = ({
   isConnected,
   onGetRuntimeInfo,
 }) => {
+  // Scaled values (SOC, temperatures, daily totals) in plain units
+  const normalized = React.useMemo(
+    () => runtimeInfo && protocol.toNormalizedRuntime(runtimeInfo),
+    [runtimeInfo],
+  );
+
   return (
     <div id="runtime-tab" className="tab-pane">
       <div id="runtime-info-container">
@@ -20,7 +34,7 @@ const RuntimeTab: React.FC<RuntimeTabProps> = ({
           Get Runtime Info
         </button>
 
-        {runtimeInfo && (
+        {runtimeInfo && normalized && (
           <div className="device-info">
             <table className="info-table">
               <tbody>
@@ -29,7 +43,7 @@ const RuntimeTab: React.FC<RuntimeTabProps> = ({
                   <td>
                     <strong>Battery Level</strong>
                   </td>
-                  <td>{runtimeInfo.soc / 10}%</td>
+                  <td>{formatMeasurement(normalized.soc)}</td>
                 </tr>
                 <tr>
                   <td>
@@ -73,7 +87,7 @@ const RuntimeTab: React.FC<RuntimeTabProps> = ({
                   <td>
                     <strong>Output 1 Status</strong>
                   </td>
-                  <td>{runtimeInfo.out1Active ? "Active" : "Inactive"}</td>
+                  <td>{runtimeInfo.out1State.label}</td>
                 </tr>
                 <tr>
                   <td>
@@ -85,7 +99,7 @@ const RuntimeTab: React.FC<RuntimeTabProps> = ({
                   <td>
                     <strong>Output 2 Status</strong>
                   </td>
-                  <td>{runtimeInfo.out2Active ? "Active" : "Inactive"}</td>
+                  <td>{runtimeInfo.out2State.label}</td>
                 </tr>
                 <tr>
                   <td>
@@ -99,13 +113,27 @@ const RuntimeTab: React.FC<RuntimeTabProps> = ({
                   <td>
                     <strong>Temperature Low</strong>
                   </td>
-                  <td>{runtimeInfo.temperatureLow}°C</td>
+                  <td>{formatMeasurement(normalized.temperatureLow)}</td>
                 </tr>
                 <tr>
                   <td>
                     <strong>Temperature High</strong>
                   </td>
-                  <td>{runtimeInfo.temperatureHigh}°C</td>
+                  <td>{formatMeasurement(normalized.temperatureHigh)}</td>
+                </tr>
+
+                {/* External battery packs */}
+                <tr>
+                  <td>
+                    <strong>External 1</strong>
+                  </td>
+                  <td>{runtimeInfo.extern1State.label}</td>
+                </tr>
+                <tr>
+                  <td>
+                    <strong>External 2</strong>
+                  </td>
+                  <td>{runtimeInfo.extern2State.label}</td>
                 </tr>
 
                 {/* Device info */}
@@ -120,6 +148,18 @@ const RuntimeTab: React.FC<RuntimeTabProps> = ({
                       : ""}
                   </td>
                 </tr>
+                <tr>
+                  <td>
+                    <strong>Scene</strong>
+                  </td>
+                  <td>{runtimeInfo.scene.label}</td>
+                </tr>
+                <tr>
+                  <td>
+                    <strong>Region</strong>
+                  </td>
+                  <td>{runtimeInfo.region.label}</td>
+                </tr>
                 <tr>
                   <td>
                     <strong>Device Time</strong>
@@ -149,36 +189,44 @@ const RuntimeTab: React.FC<RuntimeTabProps> = ({
                 </tr>
 
                 {/* Daily energy if available */}
-                {runtimeInfo.dailyTotalBatteryCharge !== undefined && (
+                {normalized.dailyTotalBatteryCharge && (
                   <tr>
                     <td>
                       <strong>Battery Charge Today</strong>
                     </td>
-                    <td>{runtimeInfo.dailyTotalBatteryCharge}Wh</td>
+                    <td>
+                      {formatMeasurement(normalized.dailyTotalBatteryCharge)}
+                    </td>
                   </tr>
                 )}
-                {runtimeInfo.dailyTotalBatteryDischarge !== undefined && (
+                {normalized.dailyTotalBatteryDischarge && (
                   <tr>
                     <td>
                       <strong>Battery Discharge Today</strong>
                     </td>
-                    <td>{runtimeInfo.dailyTotalBatteryDischarge}Wh</td>
+                    <td>
+                      {formatMeasurement(normalized.dailyTotalBatteryDischarge)}
+                    </td>
                   </tr>
                 )}
-                {runtimeInfo.dailyTotalLoadCharge !== undefined && (
+                {normalized.dailyTotalLoadCharge && (
                   <tr>
                     <td>
                       <strong>Load Charge Today</strong>
                     </td>
-                    <td>{runtimeInfo.dailyTotalLoadCharge}Wh</td>
+                    <td>
+                      {formatMeasurement(normalized.dailyTotalLoadCharge)}
+                    </td>
                   </tr>
                 )}
-                {runtimeInfo.dailyTotalLoadDischarge !== undefined && (
+                {normalized.dailyTotalLoadDischarge && (
                   <tr>
                     <td>
                       <strong>Load Discharge Today</strong>
                     </td>
-                    <td>{runtimeInfo.dailyTotalLoadDischarge}Wh</td>
+                    <td>
+                      {formatMeasurement(normalized.dailyTotalLoadDischarge)}
+                    </td>
                   </tr>
                 )}
 
@@ -165,7 +165,7 @@ const ConfigurationCommands: React.FC = () => {
           </p>
           <PayloadFormat format="[TimerInfo] × count" />
 
-          <StructureInfo title="TimerInfo Structure (6 bytes each):">
+          <StructureInfo title="TimerInfo Structure (7 bytes each):">
             <ul>
               <li>
                 <strong>Byte 0:</strong> enabled (0x00 = disabled, 0x01 =
@@ -192,21 +192,24 @@ const ConfigurationCommands: React.FC = () => {
 
           <StructureInfo title="Timer Response Structures:" variant="response">
             <p>
-              <strong>TimerInfoPacket3</strong> (older format, 16 bytes):
+              <strong>TimerInfoPacket3</strong> (older format, 29 bytes):
             </p>
             <ul>
               <li>Byte 0: adaptive_mode_enabled</li>
-              <li>Bytes 1-18: timer[3] (3 × TimerInfo)</li>
-              <li>Bytes 19-25: SmartMeterInfo</li>
+              <li>Bytes 1-21: timer[3] (3 × TimerInfo)</li>
+              <li>
+                Bytes 22-28: SmartMeterInfo (connected, int16 power, 4 reserved
+                bytes)
+              </li>
             </ul>
 
             <p>
-              <strong>TimerInfoPacket</strong> (newer format, 28 bytes):
+              <strong>TimerInfoPacket</strong> (newer format, 53 bytes):
             </p>
             <ul>
-              <li>Bytes 0-15: TimerInfoPacket3 base</li>
-              <li>Bytes 16-25: reserved</li>
-              <li>Bytes 26-37: additional_timers[2] (2 × TimerInfo)</li>
+              <li>Bytes 0-28: TimerInfoPacket3 base</li>
+              <li>Bytes 29-38: reserved</li>
+              <li>Bytes 39-52: additional_timers[2] (2 × TimerInfo)</li>
             </ul>
           </StructureInfo>
 
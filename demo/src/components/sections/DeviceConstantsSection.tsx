@@ -1,40 +1,37 @@
 import React from "react";
+import {
+  DEVICE_REGION_LABELS,
+  DEVICE_SCENE_LABELS,
+  EXTERNAL_CONNECTION_LABELS,
+  OUTPUT_STATE_LABELS,
+} from "@tomquist/hmjs-protocol";
+
+const formatCode = (code: string) =>
+  `0x${Number(code).toString(16).toUpperCase().padStart(2, "0")}`;
+
+const groups: Array<[string, Record<number, string>]> = [
+  ["Regions", DEVICE_REGION_LABELS],
+  ["Scenes", DEVICE_SCENE_LABELS],
+  ["Output States", OUTPUT_STATE_LABELS],
+  ["External Connections", EXTERNAL_CONNECTION_LABELS],
+];
 
 const DeviceConstantsSection: React.FC = () => {
   return (
     <div className="device-enums">
       <h5>🏷️ Device Constants</h5>
-      <div className="enum-group">
-        <h6>Regions:</h6>
-        <ul>
-          <li>
-            <code>0x00</code> - EU
-          </li>
-          <li>
-            <code>0x01</code> - China
-          </li>
-          <li>
-            <code>0x02</code> - Non-EU
-          </li>
-          <li>
-            <code>0xFF</code> - Not Set
-          </li>
-        </ul>
-      </div>
-      <div className="enum-group">
-        <h6>Scenes:</h6>
-        <ul>
-          <li>
-            <code>0x00</code> - Day
-          </li>
-          <li>
-            <code>0x01</code> - Night
-          </li>
-          <li>
-            <code>0x02</code> - Dusk/Dawn
-          </li>
-        </ul>
-      </div>
+      {groups.map(([title, labels]) => (
+        <div className="enum-group" key={title}>
+          <h6>{title}:</h6>
+          <ul>
+            {Object.entries(labels).map(([code, label]) => (
+              <li key={code}>
+                <code>{formatCode(code)}</code> - {label}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
     </div>
   );
 };
@@ -38,6 +38,7 @@ export default {
     alias: {
       '@tomquist/hmjs-protocol': path.resolve(__dirname, '../packages/protocol/src'),
       '@tomquist/hmjs-ble': path.resolve(__dirname, '../packages/ble/src'),
+      '@tomquist/hmjs-simulator': path.resolve(__dirname, '../packages/simulator/src'),
     },
     extensionAlias: {
       '.js': ['.tsx', '.ts', '.js']
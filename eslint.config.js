@@ -24,6 +24,14 @@ export default [
         ...globals.browser,
         BufferSource: 'readonly',
         EventListener: 'readonly',
+        BluetoothLEScan: 'readonly',
+        BluetoothAdvertisingEvent: 'readonly',
+        BluetoothLEScanOptions: 'readonly',
+        BluetoothServiceUUID: 'readonly',
+        BluetoothCharacteristicUUID: 'readonly',
+        BluetoothDescriptorUUID: 'readonly',
+        WatchAdvertisementsOptions: 'readonly',
+        RequestDeviceOptions: 'readonly',
       },
     },
     plugins: {
@@ -0,0 +1,153 @@
+import { AdvertisementScanner, Advertisement } from "./AdvertisementScanner.js";
+
+class FakeBluetooth extends EventTarget {
+  scanOptions: BluetoothLEScanOptions | null = null;
+  stopped = false;
+
+  async requestLEScan(options: BluetoothLEScanOptions) {
+    this.scanOptions = options;
+    return { ...options, active: true, stop: () => (this.stopped = true) };
+  }
+
+  advertise(id: string, name: string | undefined, rssi: number) {
+    const event = Object.assign(new Event("advertisementreceived"), {
+      device: { id, name },
+      name,
+      rssi,
+      txPower: -4,
+      uuids: ["0000ff00-0000-1000-8000-00805f9b34fb"],
+      manufacturerData: new Map([
+        [0x1234, new DataView(new Uint8Array([1, 2]).buffer)],
+      ]),
+      serviceData: new Map(),
+    });
+    this.dispatchEvent(event);
+  }
+}
+
+describe("AdvertisementScanner", () => {
+  let bluetooth: FakeBluetooth;
+  let scanner: AdvertisementScanner;
+
+  const createScanner = (
+    options: ConstructorParameters<typeof AdvertisementScanner>[0] = {},
+  ) =>
+    new AdvertisementScanner({
+      bluetooth: bluetooth as unknown as Bluetooth,
+      ...options,
+    });
+
+  beforeEach(() => {
+    bluetooth = new FakeBluetooth();
+  });
+
+  afterEach(() => {
+    scanner?.stop();
+  });
+
+  it("should report advertisements of matching devices", async () => {
+    scanner = createScanner();
+    const found: Advertisement[] = [];
+    scanner.on("deviceFound", (advertisement) => found.push(advertisement));
+    await scanner.start();
+
+    bluetooth.advertise("a", "HM_A", -70);
+    bluetooth.advertise("b", "Other", -40);
+    bluetooth.advertise("a", "HM_A", -60);
+
+    expect(bluetooth.scanOptions?.filters).toEqual([{ namePrefix: "HM_" }]);
+    expect(found.map((advertisement) => advertisement.id)).toEqual(["a"]);
+    expect(scanner.getDevices()).toEqual([
+      expect.objectContaining({
+        id: "a",
+        name: "HM_A",
+        rssi: -60,
+        txPower: -4,
+        manufacturerData: new Map([[0x1234, new Uint8Array([1, 2])]]),
+      }),
+    ]);
+  });
+
+  it("should accept all devices when configured", async () => {
+    scanner = createScanner({ acceptAllDevices: true });
+    await scanner.start();
+
+    bluetooth.advertise("a", "HM_A", -70);
+    bluetooth.advertise("b", undefined, -40);
+
+    expect(bluetooth.scanOptions?.acceptAllAdvertisements).toBe(true);
+    expect(
+      scanner.getDevices().map((advertisement) => advertisement.id),
+    ).toEqual(["b", "a"]);
+  });
+
+  it("should drop devices that stop advertising", async () => {
+    scanner = createScanner({ staleTimeout: 50 });
+    const lost: string[] = [];
+    scanner.on("deviceLost", (advertisement) => lost.push(advertisement.id));
+    await scanner.start();
+
+    bluetooth.advertise("a", "HM_A", -70);
+    await new Promise((resolve) => setTimeout(resolve, 250));
+
+    expect(lost).toEqual(["a"]);
+    expect(scanner.getDevices()).toEqual([]);
+  });
+
+  it("should stop the scan", async () => {
+    scanner = createScanner();
+    await scanner.start();
+    bluetooth.advertise("a", "HM_A", -70);
+    scanner.stop();
+
+    bluetooth.advertise("b", "HM_B", -70);
+    expect(bluetooth.stopped).toBe(true);
+    expect(scanner.isScanning).toBe(false);
+    expect(scanner.getDevices()).toEqual([]);
+  });
+
+  it("should fail without scanning support", async () => {
+    scanner = new AdvertisementScanner({ bluetooth: {} as Bluetooth });
+    const errors: Error[] = [];
+    scanner.on("error", (error) => errors.push(error));
+    await expect(scanner.start()).rejects.toThrow(
+      "Advertisement scanning is not supported",
+    );
+    expect(errors).toHaveLength(1);
+  });
+
+  it("should report a failed scan request", async () => {
+    bluetooth.requestLEScan = async () => {
+      throw new Error("Permission denied");
+    };
+    scanner = createScanner();
+    const errors: Error[] = [];
+    scanner.on("error", (error) => errors.push(error));
+
+    await expect(scanner.start()).rejects.toThrow("Permission denied");
+    expect(errors.map((error) => error.message)).toEqual(["Permission denied"]);
+    expect(scanner.isScanning).toBe(false);
+  });
+
+  it("should report advertisements that cannot be read", async () => {
+    scanner = createScanner();
+    const errors: Error[] = [];
+    scanner.on("error", (error) => errors.push(error));
+    await scanner.start();
+
+    const event = Object.assign(new Event("advertisementreceived"), {
+      device: { id: "a", name: "HM_A" },
+      manufacturerData: {
+        forEach: () => {
+          throw new Error("Malformed manufacturer data");
+        },
+      },
+    });
+    bluetooth.dispatchEvent(event);
+
+    expect(errors.map((error) => error.message)).toEqual([
+      "Malformed manufacturer data",
+    ]);
+    expect(scanner.getDevices()).toEqual([]);
+  });
+});
@@ -0,0 +1,315 @@
+/**
+ * AdvertisementScanner - Passively listens for advertisements of HM devices
+ * to show which devices are in range and how strong their signal is, without
+ * connecting to them.
+ *
+ * Uses the Web Bluetooth scanning API (`requestLEScan`), which browsers only
+ * offer behind a flag or permission. Devices that stop advertising for
+ * `staleTimeout` milliseconds are dropped from the list.
+ */
+import { EventCallback } from "./types.js";
+import { resolveBluetooth } from "./WebBluetooth.js";
+
+interface AdvertisementScannerOptions {
+  /** Only report devices whose name starts with this prefix (default: "HM_") */
+  deviceNamePrefix?: string;
+  /** Report advertisements of all devices, including unnamed ones */
+  acceptAllDevices?: boolean;
+  /** Time after which a silent device is dropped in milliseconds (default: 10000) */
+  staleTimeout?: number;
+  /** Web Bluetooth implementation to use (default: `navigator.bluetooth`, or `webbluetooth` in Node.js) */
+  bluetooth?: Bluetooth;
+  logger?: (message: string, ...args: unknown[]) => void;
+}
+
+interface Advertisement {
+  /** Web Bluetooth device ID */
+  id: string;
+  /** Advertised name, if any */
+  name: string | null;
+  /** Received signal strength in dBm */
+  rssi: number | null;
+  /** Advertised transmit power in dBm */
+  txPower: number | null;
+  /** Manufacturer data by company identifier */
+  manufacturerData: Map<number, Uint8Array>;
+  /** Service data by service UUID */
+  serviceData: Map<string, Uint8Array>;
+  /** Advertised service UUIDs */
+  uuids: string[];
+  /** The advertising device */
+  device: BluetoothDevice;
+  /** Time the advertisement was received (ms since epoch) */
+  lastSeen: number;
+}
+
+type ScannerEventCallbackArgs = {
+  advertisement: [Advertisement];
+  deviceFound: [Advertisement];
+  deviceLost: [Advertisement];
+  error: [Error];
+};
+
+type ScannerEventType = keyof ScannerEventCallbackArgs;
+
+type ScannerEventMap = {
+  [K in ScannerEventType]: Array<EventCallback<ScannerEventCallbackArgs[K]>>;
+};
+
+class AdvertisementScanner {
+  private options: Required<
+    Omit<AdvertisementScannerOptions, "bluetooth" | "logger">
+  > & {
+    bluetooth?: Bluetooth;
+    logger?: (message: string, ...args: unknown[]) => void;
+  };
+  private scan: BluetoothLEScan | null = null;
+  private bluetooth: Bluetooth | null = null;
+  private devices = new Map<string, Advertisement>();
+  private staleTimer: ReturnType<typeof setInterval> | null = null;
+
+  // Event listeners
+  private eventListeners: ScannerEventMap = {
+    advertisement: [],
+    deviceFound: [],
+    deviceLost: [],
+    error: [],
+  };
+
+  /**
+   * Constructor
+   * @param options Configuration options
+   */
+  constructor(options: AdvertisementScannerOptions = {}) {
+    this.options = {
+      deviceNamePrefix: options.deviceNamePrefix || "HM_",
+      acceptAllDevices: options.acceptAllDevices ?? false,
+      staleTimeout: options.staleTimeout ?? 10000,
+      bluetooth: options.bluetooth,
+      logger: options.logger,
+    };
+    this._handleAdvertisement = this._handleAdvertisement.bind(this);
+  }
+
+  /**
+   * Register an event listener
+   * @param event Event name
+   * @param callback Callback function
+   * @returns This instance for chaining
+   */
+  public on<T extends ScannerEventType>(
+    event: T,
+    callback: EventCallback<ScannerEventCallbackArgs[T]>,
+  ): AdvertisementScanner {
+    if (this.eventListeners[event]) {
+      this.eventListeners[event].push(callback);
+    } else {
+      this.log(`Warning: Unknown event type "${event}"`);
+    }
+    return this;
+  }
+
+  /**
+   * Remove an event listener
+   * @param event Event name
+   * @param callback Callback function to remove
+   * @returns This instance for chaining
+   */
+  public off(event: string, callback: EventCallback): AdvertisementScanner {
+    if (this.eventListeners[event]) {
+      this.eventListeners[event] = this.eventListeners[event].filter(
+        (cb: EventCallback) => cb !== callback,
+      );
+    }
+    return this;
+  }
+
+  /**
+   * Whether a scan is running
+   */
+  public get isScanning(): boolean {
+    return this.scan !== null;
+  }
+
+  /**
+   * Devices currently in range, strongest signal first
+   */
+  public getDevices(): Advertisement[] {
+    return [...this.devices.values()].sort(
+      (a, b) => (b.rssi ?? -Infinity) - (a.rssi ?? -Infinity),
+    );
+  }
+
+  /**
+   * Start listening for advertisements
+   */
+  public async start(): Promise<void> {
+    if (this.scan) return;
+
+    let bluetooth: Bluetooth;
+    try {
+      bluetooth = await resolveBluetooth(this.options.bluetooth);
+      if (typeof bluetooth.requestLEScan !== "function") {
+        throw new Error(
+          "Advertisement scanning is not supported by this Bluetooth implementation",
+        );
+      }
+    } catch (error) {
+      this._triggerEvent("error", error);
+      throw error;
+    }
+
+    bluetooth.addEventListener(
+      "advertisementreceived",
+      this._handleAdvertisement,
+    );
+    try {
+      this.scan = await bluetooth.requestLEScan(
+        this.options.acceptAllDevices
+          ? { acceptAllAdvertisements: true, keepRepeatedDevices: true }
+          : {
+              filters: [{ namePrefix: this.options.deviceNamePrefix }],
+              keepRepeatedDevices: true,
+            },
+      );
+    } catch (error) {
+      bluetooth.removeEventListener(
+        "advertisementreceived",
+        this._handleAdvertisement,
+      );
+      this.log("Advertisement scan failed:", error);
+      this._triggerEvent("error", error);
+      throw error;
+    }
+
+    this.bluetooth = bluetooth;
+    this.staleTimer = setInterval(
+      () => this._dropStaleDevices(),
+      Math.max(this.options.staleTimeout / 2, 100),
+    );
+    this.log("Advertisement scan started");
+  }
+
+  /**
+   * Stop listening and clear the device list
+   */
+  public stop(): void {
+    if (!this.scan) return;
+
+    this.scan.stop();
+    this.scan = null;
+    this.bluetooth?.removeEventListener(
+      "advertisementreceived",
+      this._handleAdvertisement,
+    );
+    this.bluetooth = null;
+    if (this.staleTimer) {
+      clearInterval(this.staleTimer);
+      this.staleTimer = null;
+    }
+    this.devices.clear();
+    this.log("Advertisement scan stopped");
+  }
+
+  /**
+   * Record a received advertisement
+   * @private
+   */
+  private _handleAdvertisement(event: BluetoothAdvertisingEvent): void {
+    const name = event.name ?? event.device.name ?? null;
+    if (
+      !this.options.acceptAllDevices &&
+      !name?.startsWith(this.options.deviceNamePrefix)
+    ) {
+      return;
+    }
+
+    let advertisement: Advertisement;
+    try {
+      advertisement = {
+        id: event.device.id,
+        name,
+        rssi: event.rssi ?? null,
+        txPower: event.txPower ?? null,
+        manufacturerData: copyDataMap(event.manufacturerData, Number),
+        serviceData: copyDataMap(event.serviceData, String),
+        uuids: (event.uuids ?? []).map(String),
+        device: event.device,
+        lastSeen: Date.now(),
+      };
+    } catch (error) {
+      this.log("Error reading advertisement:", error);
+      this._triggerEvent("error", error);
+      return;
+    }
+
+    const isNew = !this.devices.has(advertisement.id);
+    this.devices.set(advertisement.id, advertisement);
+    if (isNew) {
+      this.log(`Found ${name || "unnamed device"} (${advertisement.id})`);
+      this._triggerEvent("deviceFound", advertisement);
+    }
+    this._triggerEvent("advertisement", advertisement);
+  }
+
+  /**
+   * Remove devices that stopped advertising
+   * @private
+   */
+  private _dropStaleDevices(): void {
+    const cutoff = Date.now() - this.options.staleTimeout;
+    for (const [id, advertisement] of this.devices) {
+      if (advertisement.lastSeen < cutoff) {
+        this.devices.delete(id);
+        this.log(`Lost ${advertisement.name || "unnamed device"} (${id})`);
+        this._triggerEvent("deviceLost", advertisement);
+      }
+    }
+  }
+
+  /**
+   * Trigger an event
+   * @private
+   */
+  private _triggerEvent(event: string, ...args: unknown[]): void {
+    if (this.eventListeners[event]) {
+      for (const callback of this.eventListeners[event]) {
+        try {
+          callback(...args);
+        } catch (error) {
+          this.log(`Error in ${event} event handler:`, error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Log a message using the configured logger
+   * @private
+   */
+  private log(message: string, ...args: unknown[]): void {
+    if (this.options.logger) {
+      this.options.logger(message, ...args);
+    }
+  }
+}
+
+/**
+ * Copy advertisement data, which browsers may reuse between events
+ */
+function copyDataMap<K, T>(
+  data: ReadonlyMap<K, DataView> | undefined,
+  mapKey: (key: K) => T,
+): Map<T, Uint8Array> {
+  const result = new Map<T, Uint8Array>();
+  data?.forEach((view, key) => {
+    result.set(
+      mapKey(key),
+      new Uint8Array(view.buffer, view.byteOffset, view.byteLength).slice(),
+    );
+  });
+  return result;
+}
+
+export { AdvertisementScanner };
+export type { AdvertisementScannerOptions, Advertisement };
@@ -1,8 +1,517 @@
 import { BLEDeviceManager } from "./BLEDeviceManager.js";
+import {
+  COMMAND_TYPES,
+  DeviceRegion,
+  HMDeviceProtocol,
+} from "@tomquist/hmjs-protocol";
+import { MemoryDeviceStore } from "./DeviceStore.js";
+import { FakeBluetooth } from "./testing/index.js";
+
+/**
+ * Minimal stand-in for a Web Bluetooth device whose GATT connection can be
+ * made to fail
+ */
+function createStubDevice() {
+  const listeners: Record<string, Set<() => void>> = {};
+  const characteristic = {
+    notificationListeners: 0,
+    writes: 0,
+    startNotifications: async () => characteristic,
+    addEventListener: () => characteristic.notificationListeners++,
+    removeEventListener: () => characteristic.notificationListeners--,
+    writeValueWithoutResponse: async () => {
+      characteristic.writes++;
+    },
+  };
+  const stub = {
+    failConnect: false,
+    connectCalls: 0,
+    id: "stub",
+    name: "HM_STUB",
+    characteristic,
+    addEventListener: (type: string, listener: () => void) => {
+      (listeners[type] ??= new Set()).add(listener);
+    },
+    removeEventListener: (type: string, listener: () => void) => {
+      listeners[type]?.delete(listener);
+    },
+    emit: (type: string) => {
+      for (const listener of listeners[type] ?? []) {
+        listener();
+      }
+    },
+    dropConnection: () => {
+      stub.gatt.connected = false;
+      for (const listener of listeners["gattserverdisconnected"] ?? []) {
+        listener();
+      }
+    },
+    gatt: {
+      connected: false,
+      connect: async () => {
+        stub.connectCalls++;
+        if (stub.failConnect) throw new Error("Connection failed");
+        stub.gatt.connected = true;
+        return {
+          getPrimaryService: async () => ({
+            getCharacteristic: async () => characteristic,
+          }),
+        };
+      },
+      disconnect: () => stub.dropConnection(),
+    },
+  };
+  return stub;
+}
 
 describe("BLEDeviceManager", () => {
   it("should instantiate without error", () => {
     const manager = new BLEDeviceManager();
     expect(manager).toBeInstanceOf(BLEDeviceManager);
   });
+
+  describe("capabilities", () => {
+    const timers = Array.from({ length: 5 }, () => ({
+      enabled: true,
+      start: { hour: 8, minute: 0 },
+      end: { hour: 20, minute: 0 },
+      outputPower: 100,
+    }));
+
+    const connect = async (enforceCapabilities?: boolean) => {
+      const bluetooth = new FakeBluetooth();
+      const device = bluetooth
+        .addDevice()
+        .respond(
+          COMMAND_TYPES.DEVICE_INFO,
+          Array.from(new TextEncoder().encode("type=HMA-1,id=1")),
+        )
+        // Timer packet with three timers
+        .respond(
+          COMMAND_TYPES.GET_TIMERS,
+          new Uint8Array(HMDeviceProtocol.TIMER_PACKET3_SIZE),
+        );
+      const manager = new BLEDeviceManager({
+        bluetooth: bluetooth.asBluetooth(),
+        deviceStore: new MemoryDeviceStore(),
+        logger: () => {},
+        enforceCapabilities,
+      });
+      await manager.connect(device.asDevice());
+      await manager.getDeviceInfo();
+      await manager.getTimers();
+      return { device, manager };
+    };
+
+    it("should refuse more timers than the device reported", async () => {
+      const { device, manager } = await connect();
+
+      await expect(manager.setTimers(timers)).rejects.toThrow(
+        "Refusing to send set timers: HMA-1 supports 3 timers, got 5",
+      );
+      expect(device.writes.map((write) => write.commandType)).toEqual([
+        COMMAND_TYPES.DEVICE_INFO,
+        COMMAND_TYPES.GET_TIMERS,
+      ]);
+      manager.disconnect();
+    });
+
+    it("should send every command when not enforced", async () => {
+      const { device, manager } = await connect(false);
+
+      await expect(manager.setTimers(timers)).rejects.toThrow(
+        "Device did not confirm the timer schedule",
+      );
+      expect(device.writes.map((write) => write.commandType)).toContain(
+        COMMAND_TYPES.SET_TIMERS,
+      );
+      manager.disconnect();
+    });
+  });
+
+  describe("destructive commands", () => {
+    it("should refuse destructive commands by default", async () => {
+      const manager = new BLEDeviceManager({ logger: () => {} });
+      await expect(manager.reboot()).rejects.toThrow(/disabled/);
+      await expect(manager.factoryReset({ confirm: true })).rejects.toThrow(
+        /disabled/,
+      );
+      await expect(manager.setRegion(DeviceRegion.EU)).rejects.toThrow(
+        /disabled/,
+      );
+    });
+
+    it("should require confirmation for a factory reset", async () => {
+      const manager = new BLEDeviceManager({
+        logger: () => {},
+        allowDestructiveCommands: true,
+      });
+      await expect(manager.factoryReset({ confirm: false })).rejects.toThrow(
+        /confirm/,
+      );
+    });
+
+    it("should pass the policy once enabled", async () => {
+      const manager = new BLEDeviceManager({ logger: () => {} });
+      manager.setAllowDestructiveCommands(true);
+      await expect(manager.reboot()).rejects.toThrow("Not connected to device");
+    });
+  });
+
+  describe("auto-reconnect", () => {
+    const waitFor = async (condition: () => boolean) => {
+      for (let i = 0; i < 100 && !condition(); i++) {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+      }
+    };
+
+    it("should back off between attempts and give up at the limit", async () => {
+      const manager = new BLEDeviceManager({
+        logger: () => {},
+        reconnectDelay: 1,
+        maxReconnectDelay: 3,
+        maxReconnectAttempts: 3,
+      });
+      const device = createStubDevice();
+      const delays: number[] = [];
+      const failures: number[] = [];
+      manager.on("reconnecting", ({ delay }) => delays.push(delay));
+      manager.on("reconnectFailed", ({ attempts }) => failures.push(attempts));
+      manager.on("error", () => {});
+
+      await manager.connect(device as unknown as BluetoothDevice);
+      device.failConnect = true;
+      device.dropConnection();
+
+      await waitFor(() => failures.length > 0);
+      expect(delays).toEqual([1, 2, 3]);
+      expect(failures).toEqual([3]);
+      expect(device.connectCalls).toBe(4);
+      expect(manager.getDevice()).toBeNull();
+    });
+
+    it("should reconnect once the device is reachable again", async () => {
+      const manager = new BLEDeviceManager({
+        logger: () => {},
+        reconnectDelay: 1,
+      });
+      const device = createStubDevice();
+      let reconnected = false;
+      manager.on("reconnect", () => (reconnected = true));
+
+      await manager.connect(device as unknown as BluetoothDevice);
+      device.failConnect = true;
+      device.dropConnection();
+      await waitFor(() => device.connectCalls > 2);
+      device.failConnect = false;
+
+      await waitFor(() => reconnected);
+      expect(manager.isConnected()).toBe(true);
+    });
+
+    it("should forget a reboot that did not disconnect", async () => {
+      const manager = new BLEDeviceManager({
+        logger: () => {},
+        autoReconnect: false,
+        allowDestructiveCommands: true,
+      });
+      const device = createStubDevice();
+      await manager.connect(device as unknown as BluetoothDevice);
+
+      jest.useFakeTimers();
+      try {
+        await manager.reboot();
+        jest.advanceTimersByTime(BLEDeviceManager.REBOOT_DISCONNECT_TIMEOUT);
+      } finally {
+        jest.useRealTimers();
+      }
+      device.dropConnection();
+
+      expect(manager.getState()).toBe("idle");
+    });
+
+    it("should reconnect after a reboot without auto-reconnect", async () => {
+      const manager = new BLEDeviceManager({
+        logger: () => {},
+        autoReconnect: false,
+        allowDestructiveCommands: true,
+      });
+      const device = createStubDevice();
+      await manager.connect(device as unknown as BluetoothDevice);
+
+      await manager.reboot();
+      device.dropConnection();
+
+      expect(manager.getState()).toBe("reconnecting");
+      manager.disconnect();
+    });
+
+    it("should stop reconnecting when cancelled", async () => {
+      const manager = new BLEDeviceManager({
+        logger: () => {},
+        reconnectDelay: 20,
+      });
+      const device = createStubDevice();
+
+      await manager.connect(device as unknown as BluetoothDevice);
+      device.dropConnection();
+      manager.disconnect();
+
+      await new Promise((resolve) => setTimeout(resolve, 40));
+      expect(device.connectCalls).toBe(1);
+      expect(manager.isConnected()).toBe(false);
+      expect(manager.getDevice()).toBeNull();
+    });
+  });
+
+  describe("connection state", () => {
+    it("should report every transition of a session", async () => {
+      const manager = new BLEDeviceManager({
+        logger: () => {},
+        reconnectDelay: 1,
+      });
+      const device = createStubDevice();
+      const transitions: string[] = [];
+      manager.on("stateChange", ({ previous, next }) =>
+        transitions.push(`${previous}->${next}`),
+      );
+
+      expect(manager.getState()).toBe("idle");
+      await manager.connect(device as unknown as BluetoothDevice);
+      expect(manager.getState()).toBe("connected");
+      manager.disconnect();
+
+      expect(transitions).toEqual([
+        "idle->connecting",
+        "connecting->discovering",
+        "discovering->connected",
+        "connected->disconnecting",
+        "disconnecting->idle",
+      ]);
+      expect(manager.getDevice()).toBeNull();
+    });
+
+    it("should fail when the connection cannot be established", async () => {
+      const manager = new BLEDeviceManager({ logger: () => {} });
+      const device = createStubDevice();
+      device.failConnect = true;
+      manager.on("error", () => {});
+
+      await expect(
+        manager.connect(device as unknown as BluetoothDevice),
+      ).rejects.toThrow("Connection failed");
+      expect(manager.getState()).toBe("failed");
+
+      device.failConnect = false;
+      await manager.connect(device as unknown as BluetoothDevice);
+      expect(manager.getState()).toBe("connected");
+    });
+
+    it("should reject transitions that are not allowed", async () => {
+      const manager = new BLEDeviceManager({ logger: () => {} });
+      const device = createStubDevice();
+      await manager.connect(device as unknown as BluetoothDevice);
+
+      await expect(manager.scanForDevices()).rejects.toThrow(
+        "Invalid connection state transition from connected to scanning",
+      );
+    });
+
+    it("should attach the notification listener once per connection", async () => {
+      const manager = new BLEDeviceManager({
+        logger: () => {},
+        reconnectDelay: 1,
+      });
+      const device = createStubDevice();
+      let reconnects = 0;
+      manager.on("reconnect", () => reconnects++);
+
+      await manager.connect(device as unknown as BluetoothDevice);
+      for (let i = 1; i <= 3; i++) {
+        device.dropConnection();
+        for (let j = 0; j < 100 && reconnects < i; j++) {
+          await new Promise((resolve) => setTimeout(resolve, 5));
+        }
+      }
+
+      expect(reconnects).toBe(3);
+      expect(device.characteristic.notificationListeners).toBe(1);
+      manager.disconnect();
+      expect(device.characteristic.notificationListeners).toBe(0);
+    });
+  });
+
+  describe("polling", () => {
+    it("should poll only while connected", async () => {
+      const manager = new BLEDeviceManager({
+        logger: () => {},
+        autoReconnect: false,
+      });
+      const device = createStubDevice();
+
+      manager.startPolling({ runtimeInfo: 10 });
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      expect(device.characteristic.writes).toBe(0);
+
+      await manager.connect(device as unknown as BluetoothDevice);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(device.characteristic.writes).toBe(1);
+
+      device.dropConnection();
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      expect(device.characteristic.writes).toBe(1);
+      manager.stopPolling();
+    });
+  });
+
+  describe("known devices", () => {
+    function setup() {
+      const device = createStubDevice();
+      const bluetooth = {
+        getDevices: async () => [device],
+      } as unknown as Bluetooth;
+      const deviceStore = new MemoryDeviceStore();
+      const manager = new BLEDeviceManager({
+        logger: () => {},
+        bluetooth,
+        deviceStore,
+      });
+      return { device, deviceStore, manager };
+    }
+
+    it("should remember connected devices that are still authorised", async () => {
+      const { device, deviceStore, manager } = setup();
+      deviceStore.save([{ id: "other", name: "HM_OTHER", lastConnected: 1 }]);
+
+      await manager.connect(device as unknown as BluetoothDevice);
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      const known = await manager.getKnownDevices();
+      expect(known).toEqual([
+        { id: "stub", name: "HM_STUB", lastConnected: expect.any(Number) },
+      ]);
+      expect(deviceStore.load()).toHaveLength(2);
+
+      await manager.forgetDevice("stub");
+      await expect(manager.getKnownDevices()).resolves.toEqual([]);
+    });
+
+    it("should wait for an advertisement before connecting", async () => {
+      const { device, manager } = setup();
+      let watching = false;
+      Object.assign(device, {
+        watchAdvertisements: async () => {
+          watching = true;
+          setTimeout(() => device.emit("advertisementreceived"), 10);
+        },
+      });
+
+      await manager.connectToKnown("stub");
+      expect(watching).toBe(true);
+      expect(manager.isConnected()).toBe(true);
+    });
+
+    it("should give up when the device does not advertise", async () => {
+      const { device, manager } = setup();
+      Object.assign(device, { watchAdvertisements: async () => {} });
+
+      await expect(
+        manager.connectToKnown("stub", { advertisementTimeout: 10 }),
+      ).rejects.toThrow("Device HM_STUB was not seen within 10ms");
+      expect(manager.getState()).toBe("idle");
+    });
+
+    it("should refuse devices that are not authorised", async () => {
+      const { manager } = setup();
+      await expect(manager.connectToKnown("other")).rejects.toThrow(
+        "Device other is not authorised",
+      );
+    });
+  });
+
+  describe("with FakeBluetooth", () => {
+    const wifiInfo = Array.from(new TextEncoder().encode("ssid=HomeNet"));
+
+    const createManager = (bluetooth: FakeBluetooth, options = {}) =>
+      new BLEDeviceManager({
+        bluetooth: bluetooth.asBluetooth(),
+        deviceStore: new MemoryDeviceStore(),
+        logger: () => {},
+        ...options,
+      });
+
+    it("should scan, connect and answer queries", async () => {
+      const bluetooth = new FakeBluetooth();
+      bluetooth.addDevice({ name: "Other" });
+      const device = bluetooth
+        .addDevice({ name: "HM_B2500" })
+        .respond(COMMAND_TYPES.WIFI_INFO, wifiInfo);
+      const manager = createManager(bluetooth);
+
+      const connected = await manager.connect();
+      const info = await manager.getWifiInfo();
+
+      expect(connected?.id).toBe(device.id);
+      expect(info.ssid).toBe("HomeNet");
+      expect(device.writes.map((write) => write.commandType)).toEqual([
+        COMMAND_TYPES.WIFI_INFO,
+      ]);
+      manager.disconnect();
+      expect(device.gatt.connected).toBe(false);
+    });
+
+    it("should time out when the device does not answer", async () => {
+      const bluetooth = new FakeBluetooth();
+      const device = bluetooth.addDevice();
+      const manager = createManager(bluetooth, {
+        retryPolicy: { maxAttempts: 2, initialDelay: 10, jitter: 0 },
+      });
+      const retry = jest.fn();
+      manager.on("retry", retry);
+
+      await manager.connect(device.asDevice());
+      await expect(manager.getWifiInfo({ timeout: 20 })).rejects.toThrow(
+        "Command timed out",
+      );
+
+      expect(device.writes).toHaveLength(2);
+      expect(retry).toHaveBeenCalledTimes(1);
+      manager.disconnect();
+    });
+
+    it("should report write failures", async () => {
+      const bluetooth = new FakeBluetooth();
+      const device = bluetooth.addDevice();
+      const manager = createManager(bluetooth);
+      const error = jest.fn();
+      manager.on("error", error);
+
+      await manager.connect(device.asDevice());
+      device.setWriteFailure(new Error("Write failed"));
+
+      await expect(manager.getWifiInfo()).rejects.toThrow("Write failed");
+      expect(error).toHaveBeenCalledWith(new Error("Write failed"));
+      manager.disconnect();
+    });
+
+    it("should reconnect after the connection drops", async () => {
+      const bluetooth = new FakeBluetooth();
+      const device = bluetooth
+        .addDevice()
+        .respond(COMMAND_TYPES.WIFI_INFO, wifiInfo);
+      const manager = createManager(bluetooth, { reconnectDelay: 10 });
+
+      await manager.connect(device.asDevice());
+      const pending = manager.getWifiInfo({ timeout: 1000 });
+      device.disconnect();
+      await expect(pending).rejects.toThrow("Disconnected from device");
+
+      await new Promise((resolve) => manager.on("reconnect", resolve));
+      expect(device.connectAttempts).toBe(2);
+      await expect(manager.getWifiInfo()).resolves.toMatchObject({
+        ssid: "HomeNet",
+      });
+      manager.disconnect();
+    });
+  });
 });
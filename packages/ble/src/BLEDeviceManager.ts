@@ -2,220 +2,118 @@
  * BLEDeviceManager - A utility class for managing BLE connections and communication
  * with HM battery devices.
  */
-import {
-  COMMAND_TYPES,
-  DeviceInfo,
-  RuntimeInfo,
-  CellInfo,
-  MQTTConfig,
-  HMDeviceProtocol,
-} from "@tomquist/hmjs-protocol";
 import {
   BLEManagerOptions,
-  EventCallback,
+  ConnectionState,
+  ConnectToKnownOptions,
+  KnownDevice,
   NotificationHandlerMap,
+  ReconnectFailedEvent,
+  ReconnectingEvent,
+  RetryPolicy,
+  StateChangeEvent,
 } from "./types.js";
-
-type EventCallbackArgs = {
+import {
+  HMDeviceClient,
+  HMDeviceClientEventCallbackArgs,
+} from "./HMDeviceClient.js";
+import { GattTransport } from "./GattTransport.js";
+import { createDefaultDeviceStore } from "./DeviceStore.js";
+import { resolveBluetooth } from "./WebBluetooth.js";
+
+type EventCallbackArgs = HMDeviceClientEventCallbackArgs & {
   connect: [BluetoothDevice];
-  error: [Error];
-  disconnect: [];
   reconnect: [BluetoothDevice];
-  deviceInfo: [DeviceInfo];
-  runtimeInfo: [RuntimeInfo];
-  cellInfo: [CellInfo];
-  rawData: [Uint8Array];
+  stateChange: [StateChangeEvent];
+  reconnecting: [ReconnectingEvent];
+  reconnectFailed: [ReconnectFailedEvent];
 };
 
 type EventType = keyof EventCallbackArgs;
 
-type EventMap = {
-  [K in EventType]: Array<EventCallback<EventCallbackArgs[K]>>;
-};
-
-interface CommandOptions {
-  sendTwice?: boolean;
-}
-
-class BLEDeviceManager {
+class BLEDeviceManager extends HMDeviceClient<EventCallbackArgs> {
   // Connection properties
   private device: BluetoothDevice | null = null;
-  private commandCharacteristic: BluetoothRemoteGATTCharacteristic | null =
-    null;
-  private statusCharacteristic: BluetoothRemoteGATTCharacteristic | null = null;
-  private connected: boolean = false;
-  private connecting: boolean = false;
+  private state: ConnectionState = "idle";
 
   // Options with defaults
-  private options: Required<Omit<BLEManagerOptions, "bluetooth">> & {
+  declare protected options: Required<
+    Omit<BLEManagerOptions, "bluetooth" | "retryPolicy">
+  > & {
+    retryPolicy: Required<RetryPolicy>;
     bluetooth?: Bluetooth;
   };
 
-  // Cached Web Bluetooth implementation auto-loaded in Node.js
-  private resolvedBluetooth: Bluetooth | null = null;
-
-  // Protocol handler
-  private protocol: HMDeviceProtocol;
-
   // Service and characteristic UUIDs
-  static readonly SERVICE_UUID = "0000ff00-0000-1000-8000-00805f9b34fb";
+  static readonly SERVICE_UUID = GattTransport.SERVICE_UUID;
   static readonly COMMAND_CHARACTERISTIC_UUID =
-    "0000ff01-0000-1000-8000-00805f9b34fb";
+    GattTransport.COMMAND_CHARACTERISTIC_UUID;
   static readonly STATUS_CHARACTERISTIC_UUID =
-    "0000ff02-0000-1000-8000-00805f9b34fb";
-
-  // Event listeners
-  private eventListeners: EventMap = {
-    connect: [],
-    disconnect: [],
-    reconnect: [],
-    deviceInfo: [],
-    runtimeInfo: [],
-    cellInfo: [],
-    error: [],
-    rawData: [],
+    GattTransport.STATUS_CHARACTERISTIC_UUID;
+
+  // Connection states each state may move to
+  static readonly STATE_TRANSITIONS: Readonly<
+    Record<ConnectionState, readonly ConnectionState[]>
+  > = {
+    idle: ["scanning", "connecting"],
+    scanning: ["idle"],
+    connecting: ["discovering", "disconnecting", "failed"],
+    discovering: ["connected", "disconnecting", "failed"],
+    connected: ["disconnecting", "reconnecting", "idle"],
+    reconnecting: ["connected", "idle", "failed"],
+    disconnecting: ["idle"],
+    failed: ["idle", "scanning", "connecting"],
   };
 
+  // Minimum time to wait for a rebooting device before reconnecting
+  static readonly REBOOT_RECONNECT_DELAY = 5000;
+  // Time a reboot may take to drop the connection; later disconnects count
+  // as unexpected again
+  static readonly REBOOT_DISCONNECT_TIMEOUT = 10000;
+
   // Notification handlers
   private notificationHandlers: NotificationHandlerMap = {};
-  private explicitDisconnect: boolean;
+  private rebootPending: boolean = false;
+  private rebootTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Pending reconnect attempt; the generation invalidates cancelled attempts
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private reconnectGeneration: number = 0;
 
   /**
    * Constructor
    * @param options Configuration options
    */
   constructor(options: BLEManagerOptions = {}) {
+    super(options);
+
     // Set default options
     this.options = {
+      ...this.options,
       autoReconnect:
         options.autoReconnect !== undefined ? options.autoReconnect : true,
       reconnectDelay: options.reconnectDelay || 2000,
+      maxReconnectDelay: options.maxReconnectDelay ?? 30000,
+      reconnectBackoffFactor: options.reconnectBackoffFactor ?? 2,
+      maxReconnectAttempts: options.maxReconnectAttempts ?? 0,
+      reconnectGate: options.reconnectGate ?? ((attempt) => attempt()),
       deviceNamePrefix: options.deviceNamePrefix || "HM_",
       acceptAllDevices: options.acceptAllDevices ?? false,
-      logger: options.logger || console.log,
+      deviceStore: options.deviceStore ?? createDefaultDeviceStore(),
       bluetooth: options.bluetooth,
     };
-    this.explicitDisconnect = true;
 
-    // Initialize protocol handler
-    this.protocol = new HMDeviceProtocol({ logger: this.options.logger });
+    this._registerEvents([
+      "connect",
+      "reconnect",
+      "stateChange",
+      "reconnecting",
+      "reconnectFailed",
+    ]);
 
     // Bind methods to preserve 'this' context
     this.connect = this.connect.bind(this);
     this.disconnect = this.disconnect.bind(this);
-    this.onDisconnected = this.onDisconnected.bind(this);
-    this.sendCommand = this.sendCommand.bind(this);
-  }
-
-  /**
-   * Register an event listener
-   * @param event Event name
-   * @param callback Callback function
-   * @returns This instance for chaining
-   */
-  public on<T extends EventType>(
-    event: T,
-    callback: EventCallback<EventCallbackArgs[T]>,
-  ): BLEDeviceManager {
-    if (this.eventListeners[event]) {
-      this.eventListeners[event].push(callback);
-    } else {
-      this.log(`Warning: Unknown event type "${event}"`);
-    }
-    return this;
-  }
-
-  /**
-   * Remove an event listener
-   * @param event Event name
-   * @param callback Callback function to remove
-   * @returns This instance for chaining
-   */
-  public off(event: string, callback: EventCallback): BLEDeviceManager {
-    if (this.eventListeners[event]) {
-      this.eventListeners[event] = this.eventListeners[event].filter(
-        (cb) => cb !== callback,
-      );
-    }
-    return this;
-  }
-
-  /**
-   * Trigger an event
-   * @param event Event name
-   * @param args Arguments to pass to the callback
-   * @private
-   */
-  private _triggerEvent(event: string, ...args: unknown[]): void {
-    if (this.eventListeners[event]) {
-      for (const callback of this.eventListeners[event]) {
-        try {
-          callback(...args);
-        } catch (error) {
-          this.log(`Error in ${event} event handler:`, error);
-        }
-      }
-    }
-  }
-
-  /**
-   * Log a message using the configured logger
-   * @param args Arguments to log
-   * @private
-   */
-  private log(message: string, ...args: unknown[]): void {
-    if (this.options.logger) {
-      this.options.logger(message, ...args);
-    }
-  }
-
-  /**
-   * Resolve a Web Bluetooth implementation. Prefers an explicit override,
-   * then `options.bluetooth`, then `navigator.bluetooth`, then auto-loads
-   * the optional `webbluetooth` peer dependency in Node.js.
-   */
-  private async resolveBluetooth(override?: Bluetooth): Promise<Bluetooth> {
-    if (override) return override;
-    if (this.options.bluetooth) return this.options.bluetooth;
-    if (typeof navigator !== "undefined" && navigator.bluetooth) {
-      return navigator.bluetooth;
-    }
-    if (this.resolvedBluetooth) return this.resolvedBluetooth;
-    const isNode =
-      typeof process !== "undefined" && process.versions?.node != null;
-    if (isNode) {
-      try {
-        const moduleName = "webbluetooth";
-        const mod = (await import(
-          /* webpackIgnore: true */ /* @vite-ignore */ moduleName
-        )) as { Bluetooth: new () => Bluetooth };
-        this.resolvedBluetooth = new mod.Bluetooth();
-        return this.resolvedBluetooth;
-      } catch (err) {
-        const message = err instanceof Error ? err.message : String(err);
-        const code =
-          err instanceof Error && "code" in err
-            ? (err as { code?: string }).code
-            : undefined;
-        const isModuleNotFound =
-          code === "ERR_MODULE_NOT_FOUND" ||
-          code === "MODULE_NOT_FOUND" ||
-          /Cannot find (module|package)/i.test(message);
-        if (isModuleNotFound) {
-          throw new Error(
-            "The `webbluetooth` package is not installed. Run `npm install webbluetooth`, or pass a `Bluetooth` instance via the `bluetooth` option.",
-            { cause: err },
-          );
-        }
-        throw new Error(
-          `Failed to initialize the \`webbluetooth\` Bluetooth implementation: ${message}`,
-          { cause: err },
-        );
-      }
-    }
-    throw new Error(
-      "Web Bluetooth API is not supported in this browser. Pass a `Bluetooth` instance via the `bluetooth` option.",
-    );
   }
 
   /**
@@ -232,16 +130,18 @@ class BLEDeviceManager {
       ...options,
     };
 
-    const bluetooth = await this.resolveBluetooth(scanOptions.bluetooth);
-
-    this.log("Requesting Bluetooth device...");
-    if (scanOptions.acceptAllDevices) {
-      this.log("Accepting all Bluetooth devices");
-    } else {
-      this.log(`Using device name prefix: "${scanOptions.deviceNamePrefix}"`);
-    }
+    this._transition("scanning", "Scan started");
 
     try {
+      const bluetooth = await resolveBluetooth(scanOptions.bluetooth);
+
+      this.log("Requesting Bluetooth device...");
+      if (scanOptions.acceptAllDevices) {
+        this.log("Accepting all Bluetooth devices");
+      } else {
+        this.log(`Using device name prefix: "${scanOptions.deviceNamePrefix}"`);
+      }
+
       // Request device with appropriate filters. The Web Bluetooth API allows
       // either `filters` or `acceptAllDevices`, but not both at once.
       const requestOptions = scanOptions.acceptAllDevices
@@ -258,15 +158,163 @@ class BLEDeviceManager {
       this.log(
         `Selected device: ${device.name || "unnamed device"} (${device.id})`,
       );
+      this._transition("idle", "Device selected");
       return device;
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
       this.log(`Scanning error: ${errorMessage}`);
+      this._transition("idle", `Scan failed: ${errorMessage}`);
       throw error;
     }
   }
 
+  /**
+   * Get the remembered devices that can be reconnected without a chooser
+   * prompt. Where the Bluetooth implementation supports `getDevices()`, only
+   * devices that are still authorised are returned.
+   * @returns Known devices, most recently connected first
+   */
+  public async getKnownDevices(): Promise<KnownDevice[]> {
+    const known = await this.options.deviceStore.load();
+    const bluetooth = await resolveBluetooth(this.options.bluetooth);
+
+    let result = known;
+    if (typeof bluetooth.getDevices === "function") {
+      const authorised = new Set(
+        (await bluetooth.getDevices()).map((device) => device.id),
+      );
+      result = known.filter((device) => authorised.has(device.id));
+    }
+    return result.sort((a, b) => b.lastConnected - a.lastConnected);
+  }
+
+  /**
+   * Connect to a device the user authorised before, without showing the
+   * chooser
+   * @param id ID of the device, see getKnownDevices()
+   * @param options Advertisement wait options
+   * @returns Connected device
+   */
+  public async connectToKnown(
+    id: string,
+    options: ConnectToKnownOptions = {},
+  ): Promise<BluetoothDevice | null> {
+    const bluetooth = await resolveBluetooth(this.options.bluetooth);
+    if (typeof bluetooth.getDevices !== "function") {
+      throw new Error(
+        "This Bluetooth implementation cannot list authorised devices",
+      );
+    }
+
+    const device = (await bluetooth.getDevices()).find(
+      (device) => device.id === id,
+    );
+    if (!device) {
+      throw new Error(
+        `Device ${id} is not authorised; select it with scanForDevices() first`,
+      );
+    }
+
+    if (options.waitForAdvertisement ?? true) {
+      await this._waitForAdvertisement(
+        device,
+        options.advertisementTimeout ?? 30000,
+      );
+    }
+
+    return this.connect(device);
+  }
+
+  /**
+   * Forget a remembered device
+   * @param id ID of the device
+   */
+  public async forgetDevice(id: string): Promise<void> {
+    const store = this.options.deviceStore;
+    const known = await store.load();
+    await store.save(known.filter((device) => device.id !== id));
+  }
+
+  /**
+   * Remember a device after connecting to it
+   * @private
+   */
+  private async _rememberDevice(device: BluetoothDevice): Promise<void> {
+    try {
+      const store = this.options.deviceStore;
+      const known = (await store.load()).filter(
+        (entry) => entry.id !== device.id,
+      );
+      known.unshift({
+        id: device.id,
+        name: device.name ?? null,
+        lastConnected: Date.now(),
+      });
+      await store.save(known);
+    } catch (error) {
+      this.log(
+        `Failed to remember device: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Wait until a device advertises, i.e. is in range. Returns immediately
+   * where watching advertisements is not supported.
+   * @param device Device to watch
+   * @param timeout Maximum time to wait in milliseconds
+   * @private
+   */
+  private async _waitForAdvertisement(
+    device: BluetoothDevice,
+    timeout: number,
+  ): Promise<void> {
+    if (typeof device.watchAdvertisements !== "function") return;
+
+    const controller = new AbortController();
+    let seen = false;
+    let wake: () => void = () => {};
+    const onAdvertisement = () => {
+      seen = true;
+      wake();
+    };
+
+    device.addEventListener("advertisementreceived", onAdvertisement);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      this.log(`Waiting for ${device.name || device.id} to advertise...`);
+      try {
+        await device.watchAdvertisements({ signal: controller.signal });
+      } catch (error) {
+        // Watching is behind a flag in some browsers; try connecting directly
+        this.log(
+          `Cannot watch advertisements: ${error instanceof Error ? error.message : String(error)}`,
+        );
+        return;
+      }
+
+      if (!seen) {
+        await new Promise<void>((resolve, reject) => {
+          wake = resolve;
+          timer = setTimeout(
+            () =>
+              reject(
+                new Error(
+                  `Device ${device.name || device.id} was not seen within ${timeout}ms`,
+                ),
+              ),
+            timeout,
+          );
+        });
+      }
+    } finally {
+      clearTimeout(timer);
+      controller.abort();
+      device.removeEventListener("advertisementreceived", onAdvertisement);
+    }
+  }
+
   /**
    * Connect to a BLE device
    * @param device Optional device to connect to. If not provided, one will be scanned for
@@ -277,18 +325,18 @@ class BLEDeviceManager {
     device?: BluetoothDevice,
     options: Partial<BLEManagerOptions> = {},
   ): Promise<BluetoothDevice | null> {
-    if (this.connecting) {
+    if (this.state === "connecting" || this.state === "discovering") {
       this.log("Connection already in progress");
       return this.device;
     }
 
-    if (this.connected) {
+    if (this.state === "connected") {
       this.log("Already connected to a device");
       return this.device;
     }
 
-    this.connecting = true;
-    this.explicitDisconnect = false;
+    // An explicit connect takes over from a running reconnect loop
+    this.cancelReconnect();
 
     try {
       // Merge connection options with defaults
@@ -303,56 +351,32 @@ class BLEDeviceManager {
         device = await this.scanForDevices(connectionOptions);
       }
 
-      this.device = device;
-
-      // Set up disconnect listener
-      this.device.addEventListener(
-        "gattserverdisconnected",
-        this.onDisconnected,
-      );
-
-      // Connect to GATT server
-      this.log("Connecting to GATT server...");
-      const server = await this.device.gatt!.connect();
-
-      // Get primary service
-      this.log(`Getting primary service (${BLEDeviceManager.SERVICE_UUID})...`);
-      const service = await server.getPrimaryService(
-        BLEDeviceManager.SERVICE_UUID,
-      );
-
-      // Get characteristics
-      this.log("Getting command characteristic...");
-      this.commandCharacteristic = await service.getCharacteristic(
-        BLEDeviceManager.COMMAND_CHARACTERISTIC_UUID,
-      );
-
-      this.log("Getting status characteristic...");
-      this.statusCharacteristic = await service.getCharacteristic(
-        BLEDeviceManager.STATUS_CHARACTERISTIC_UUID,
-      );
-
-      // Setup notification handler for status characteristic
-      await this.statusCharacteristic.startNotifications();
-      this.statusCharacteristic.addEventListener(
-        "characteristicvaluechanged",
-        this._handleStatusNotification.bind(this),
-      );
+      this._transition("connecting", "Connect requested");
+      this._attachDevice(device);
 
-      this.connected = true;
-      this.connecting = false;
+      await this.transport!.open();
+      // The state may have changed while awaiting
+      if (this.getState() !== "discovering") {
+        // Disconnected while the connection was being set up
+        throw new Error("Connection cancelled");
+      }
 
-      this._triggerEvent("connect", this.device);
+      this._transition("connected", "Services discovered");
+      this._triggerEvent("connect", device);
       this.log("Connected successfully");
+      this._autoSyncClock();
+      void this._rememberDevice(device);
 
-      return this.device;
+      return device;
     } catch (error) {
-      this.connecting = false;
-      this.connected = false;
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      const state = this.getState();
+      if (state === "connecting" || state === "discovering") {
+        this._transition("failed", `Connection failed: ${errorMessage}`);
+      }
       this._triggerEvent("error", error);
-      this.log(
-        `Connection error: ${error instanceof Error ? error.message : String(error)}`,
-      );
+      this.log(`Connection error: ${errorMessage}`);
       throw error;
     }
   }
@@ -361,299 +385,282 @@ class BLEDeviceManager {
    * Disconnect from the BLE device
    */
   public disconnect(): void {
-    if (this.device && this.device.gatt && this.device.gatt.connected) {
-      this.log("Disconnecting from device...");
-      this.explicitDisconnect = true;
-      this.device.gatt.disconnect();
-    } else {
-      this.onDisconnected();
+    switch (this.state) {
+      case "connecting":
+      case "discovering":
+      case "connected": {
+        this.log("Disconnecting from device...");
+        this._transition("disconnecting", "Disconnect requested");
+        this._endSession();
+        this._detachDevice();
+        this._transition("idle", "Disconnected");
+        break;
+      }
+      case "reconnecting":
+        this.cancelReconnect();
+        break;
+      case "failed":
+        this._detachDevice();
+        this._transition("idle", "Reset after failure");
+        break;
     }
   }
 
   /**
-   * Handle disconnection event
-   * @private
+   * Get the current connection state
    */
-  private onDisconnected(): void {
-    if (!this.connected) return; // Already handled
-
-    this.log("Device disconnected");
-    this.connected = false;
-
-    // Clean up characteristics
-    this.commandCharacteristic = null;
-    this.statusCharacteristic = null;
-
-    // Trigger disconnect event
-    this._triggerEvent("disconnect");
-
-    // Save device for potential reconnection
-    const lastDevice = this.device;
+  public getState(): ConnectionState {
+    return this.state;
+  }
 
-    // Check for auto-reconnect
-    if (!this.explicitDisconnect && this.options.autoReconnect && lastDevice) {
-      this.log(
-        `Auto-reconnect is enabled. Attempting to reconnect in ${this.options.reconnectDelay}ms...`,
+  /**
+   * Move to another connection state
+   * @param next State to move to
+   * @param reason Why the state changes
+   * @throws Error if the transition is not allowed
+   * @private
+   */
+  private _transition(next: ConnectionState, reason: string): void {
+    const previous = this.state;
+    if (!BLEDeviceManager.STATE_TRANSITIONS[previous].includes(next)) {
+      throw new Error(
+        `Invalid connection state transition from ${previous} to ${next}`,
       );
+    }
 
-      setTimeout(async () => {
-        try {
-          this.log("Reconnecting...");
-          this.connecting = true;
-
-          // Connect to GATT server
-          const server = await lastDevice.gatt!.connect();
-
-          // Get primary service
-          const service = await server.getPrimaryService(
-            BLEDeviceManager.SERVICE_UUID,
-          );
-
-          // Get characteristics
-          this.commandCharacteristic = await service.getCharacteristic(
-            BLEDeviceManager.COMMAND_CHARACTERISTIC_UUID,
-          );
-
-          this.statusCharacteristic = await service.getCharacteristic(
-            BLEDeviceManager.STATUS_CHARACTERISTIC_UUID,
-          );
+    this.state = next;
+    this.log(`Connection state: ${previous} -> ${next} (${reason})`);
 
-          // Setup notification handler
-          await this.statusCharacteristic.startNotifications();
-          this.statusCharacteristic.addEventListener(
-            "characteristicvaluechanged",
-            this._handleStatusNotification.bind(this),
-          );
+    // A reboot only explains the disconnect of the session it was sent in
+    if (next === "idle") {
+      this._setRebootPending(false);
+    }
 
-          this.device = lastDevice;
-          this.connected = true;
-          this.connecting = false;
-
-          this._triggerEvent("reconnect", this.device);
-          this.log("Reconnected successfully");
-        } catch (error) {
-          this.connecting = false;
-          this.device = null;
-          this._triggerEvent("error", error);
-          this.log(
-            `Reconnection failed: ${error instanceof Error ? error.message : String(error)}`,
-          );
-        }
-      }, this.options.reconnectDelay);
+    // Polling pauses while disconnected and resumes once connected again
+    if (next === "connected") {
+      this.poller?.resume();
     } else {
-      this.device = null;
+      this.poller?.pause();
     }
+    this._triggerEvent("stateChange", { previous, next, reason });
   }
 
   /**
-   * Handle status characteristic notifications
-   * @param event Notification event
+   * Handle the GATT connection being lost
    * @private
    */
-  private _handleStatusNotification(_event: Event): void {
-    const value = this.statusCharacteristic.value;
+  protected _handleTransportClose(): void {
+    // Explicit disconnects and failed attempts are handled where they happen
+    if (this.state !== "connected") return;
 
-    if (!value) {
-      this.log("Received empty notification value");
-      return;
-    }
+    this.log("Device disconnected");
 
-    // Always emit raw data event for advanced mode
-    this._triggerEvent("rawData", new Uint8Array(value.buffer));
+    // Save device for potential reconnection
+    const lastDevice = this.device;
+    this._endSession();
 
-    // Attempt to determine what type of response this is
-    try {
-      // Use protocol to get command type
-      const msg = this.protocol.parseMessage(value);
-      switch (msg.type) {
-        case COMMAND_TYPES.RUNTIME_INFO:
-          this._triggerEvent("runtimeInfo", msg.data);
-          break;
-        case COMMAND_TYPES.DEVICE_INFO:
-          this._triggerEvent("deviceInfo", msg.data);
-          break;
-        case COMMAND_TYPES.CELL_INFO:
-          this._triggerEvent("cellInfo", msg.data);
-          break;
-        default:
-          // Handle unknown command type
-          this.log(
-            `Unknown command type: ${msg.type}`,
-            msg.error,
-            Array.from(msg.rawData)
-              .map((b) => `0x${b.toString(16).padStart(2, "0")}`)
-              .join(" "),
-          );
-          break;
-      }
-    } catch (error) {
-      this.log(
-        `Error processing notification: ${error instanceof Error ? error.message : String(error)}`,
+    // A reboot disconnects on purpose and always reconnects afterwards
+    const rebooting = this.rebootPending;
+    this._setRebootPending(false);
+
+    // Check for auto-reconnect
+    if ((this.options.autoReconnect || rebooting) && lastDevice) {
+      const initialDelay = rebooting
+        ? Math.max(
+            this.options.reconnectDelay,
+            BLEDeviceManager.REBOOT_RECONNECT_DELAY,
+          )
+        : this.options.reconnectDelay;
+      this._transition(
+        "reconnecting",
+        rebooting ? "Device is rebooting" : "Connection lost",
       );
+      this._scheduleReconnect(lastDevice, 1, initialDelay);
+    } else {
+      this._detachDevice();
+      this._transition("idle", "Connection lost");
     }
   }
 
   /**
-   * Send a command to the device and optionally wait for a response
-   * @param commandType Command type
-   * @param payload Optional payload data
-   * @param options Command options
-   * @returns Command response or void
+   * Schedule a reconnection attempt. Failed attempts are retried with
+   * exponential backoff until the attempt limit is reached or the loop is
+   * cancelled.
+   * @param device Device to reconnect to
+   * @param attempt Number of the attempt, starting at 1
+   * @param initialDelay Delay before the first attempt
+   * @private
    */
-  private async sendCommand(
-    commandType: number,
-    payload: Uint8Array | number[] | null = null,
-    options: CommandOptions = {},
-  ): Promise<void> {
-    if (!this.connected || !this.commandCharacteristic) {
-      throw new Error("Not connected to device");
-    }
+  private _scheduleReconnect(
+    device: BluetoothDevice,
+    attempt: number,
+    initialDelay: number,
+  ): void {
+    const delay = Math.min(
+      this.options.maxReconnectDelay,
+      initialDelay * Math.pow(this.options.reconnectBackoffFactor, attempt - 1),
+    );
+    const generation = this.reconnectGeneration;
 
-    const defaultOptions: Required<CommandOptions> = {
-      sendTwice: true, // Send command twice for reliability
-    };
+    this.log(`Reconnect attempt ${attempt} in ${delay}ms...`);
+    this._triggerEvent("reconnecting", { attempt, delay });
 
-    const cmdOptions = { ...defaultOptions, ...options };
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      try {
+        await this.options.reconnectGate(async () => {
+          // Cancelled while waiting for the gate
+          if (generation !== this.reconnectGeneration) return;
+          this.log("Reconnecting...");
+          await this.transport!.open();
+        });
 
-    try {
-      // Create the command message using the protocol
-      const command = this.protocol.createCommandMessage(commandType, payload);
-      await this.commandCharacteristic.writeValueWithoutResponse(command);
+        if (generation !== this.reconnectGeneration) {
+          // Cancelled while the attempt was in progress; the transport was
+          // closed by the cancellation
+          return;
+        }
 
-      // Send twice for reliability if enabled
-      if (cmdOptions.sendTwice) {
-        await this.commandCharacteristic.writeValueWithoutResponse(command);
-      }
+        this._transition(
+          "connected",
+          `Reconnected after ${attempt} attempt(s)`,
+        );
+        this._triggerEvent("reconnect", device);
+        this.log("Reconnected successfully");
+        this._autoSyncClock();
+        void this._rememberDevice(device);
+      } catch (error) {
+        if (generation !== this.reconnectGeneration) return;
+
+        const errorMessage =
+          error instanceof Error ? error.message : String(error);
+        this.log(`Reconnection failed: ${errorMessage}`);
+
+        const maxAttempts = this.options.maxReconnectAttempts;
+        if (maxAttempts > 0 && attempt >= maxAttempts) {
+          this._detachDevice();
+          this.log(`Giving up after ${attempt} reconnect attempts`);
+          this._transition(
+            "failed",
+            `Gave up after ${attempt} reconnect attempts: ${errorMessage}`,
+          );
+          this._triggerEvent("reconnectFailed", {
+            attempts: attempt,
+            error: error instanceof Error ? error : new Error(errorMessage),
+          });
+          return;
+        }
 
-      this.log(`Command sent: 0x${commandType.toString(16)}`);
-    } catch (error) {
-      this._triggerEvent("error", error);
-      throw error;
-    }
+        this._scheduleReconnect(device, attempt + 1, initialDelay);
+      }
+    }, delay);
   }
 
-  // ====== Convenience API Methods ======
-
   /**
-   * Get device information
-   * @returns Device information
+   * Stop a running reconnect loop
    */
-  public async getDeviceInfo(options?: {
-    timeout?: number;
-  }): Promise<DeviceInfo> {
-    const { timeout = 5000 } = options ?? {};
-    return new Promise((resolve, reject) => {
-      const eventHandler = (data: DeviceInfo) => {
-        this.off("deviceInfo", eventHandler);
-        clearTimeout(timeoutId);
-        resolve(data);
-      };
-      const timeoutId = setTimeout(() => {
-        this.off("deviceInfo", eventHandler);
-        reject(new Error("Command timed out"));
-      }, timeout);
-      this.on("deviceInfo", eventHandler);
-      this.sendCommand(COMMAND_TYPES.DEVICE_INFO, null).catch((error) => {
-        this.off("deviceInfo", eventHandler);
-        clearTimeout(timeoutId);
-        reject(error);
-      });
-    });
+  public cancelReconnect(): void {
+    if (this.state !== "reconnecting") return;
+
+    this.reconnectGeneration++;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this._detachDevice();
+    this._transition("idle", "Reconnect cancelled");
   }
 
   /**
-   * Get runtime information
-   * @returns Runtime information
+   * Start a session with a device: remember it and talk to it over its GATT
+   * characteristics
+   * @private
    */
-  public async getRuntimeInfo(options?: {
-    timeout?: number;
-  }): Promise<RuntimeInfo | null> {
-    const { timeout = 5000 } = options ?? {};
-    return new Promise((resolve, reject) => {
-      const eventHandler = (data: RuntimeInfo) => {
-        this.off("runtimeInfo", eventHandler);
-        clearTimeout(timeoutId);
-        resolve(data);
-      };
-      const timeoutId = setTimeout(() => {
-        this.off("runtimeInfo", eventHandler);
-        reject(new Error("Command timed out"));
-      }, timeout);
-      this.on("runtimeInfo", eventHandler);
-      this.sendCommand(COMMAND_TYPES.RUNTIME_INFO, null).catch((error) => {
-        this.off("runtimeInfo", eventHandler);
-        clearTimeout(timeoutId);
-        reject(error);
-      });
-    });
+  private _attachDevice(device: BluetoothDevice): void {
+    this._detachDevice();
+    this.device = device;
+    this._attachTransport(
+      new GattTransport(device, {
+        logger: this.options.logger,
+        onServerConnected: () => {
+          if (this.state === "connecting") {
+            this._transition("discovering", "GATT server connected");
+          }
+        },
+      }),
+    );
   }
 
   /**
-   * Get battery cell information
-   * @returns Cell information
+   * End the session with the current device
+   * @private
    */
-  public async getCellInfo(options?: {
-    timeout?: number;
-  }): Promise<CellInfo | null> {
-    const { timeout = 5000 } = options ?? {};
-    return new Promise((resolve, reject) => {
-      const eventHandler = (data: CellInfo) => {
-        this.off("cellInfo", eventHandler);
-        clearTimeout(timeoutId);
-        resolve(data);
-      };
-      const timeoutId = setTimeout(() => {
-        this.off("cellInfo", eventHandler);
-        reject(new Error("Command timed out"));
-      }, timeout);
-      this.on("cellInfo", eventHandler);
-      this.sendCommand(COMMAND_TYPES.CELL_INFO, null).catch((error) => {
-        this.off("cellInfo", eventHandler);
-        clearTimeout(timeoutId);
-        reject(error);
-      });
-    });
+  private _detachDevice(): void {
+    this.transport?.close();
+    this._detachTransport();
+    this.transport = null;
+    this.device = null;
   }
 
   /**
-   * Set WiFi configuration
-   * @param ssid WiFi SSID
-   * @param password WiFi password
-   * @returns Command response
+   * Clean up after the GATT connection ended and notify listeners
+   * @private
    */
-  public async setWifiConfig(ssid: string, password: string): Promise<void> {
-    if (!ssid || !password) {
-      throw new Error("SSID and password are required");
+  private _endSession(): void {
+    const notify = this.state === "connected" || this.state === "disconnecting";
+    this._resetSession();
+    if (notify) {
+      this._triggerEvent("disconnect");
     }
+  }
 
-    // Create payload using protocol
-    const configBytes = this.protocol.createWifiConfigPayload(ssid, password);
+  /**
+   * Connect to the device, scanning for one if none was selected before.
+   * BLEDeviceManager sets up its GATT transport itself.
+   */
+  public async open(): Promise<void> {
+    await this.connect(this.device ?? undefined);
+  }
 
-    await this.sendCommand(COMMAND_TYPES.SET_WIFI, configBytes);
+  /**
+   * Disconnect from the device
+   */
+  public close(): void {
+    this.disconnect();
   }
 
   /**
-   * Set MQTT configuration
-   * @param config MQTT configuration
-   * @returns Command response
+   * Reboot the device. The resulting disconnect is expected and the manager
+   * reconnects once the device is back.
    */
-  public async setMqttConfig(config: MQTTConfig): Promise<void> {
-    if (!config.host || !config.port) {
-      throw new Error("Host and port are required");
+  public async reboot(): Promise<void> {
+    this._setRebootPending(true);
+    try {
+      await super.reboot();
+    } catch (error) {
+      this._setRebootPending(false);
+      throw error;
     }
-
-    // Create payload using protocol
-    const configBytes = this.protocol.createMqttConfigPayload(config);
-
-    await this.sendCommand(COMMAND_TYPES.SET_MQTT, configBytes);
   }
 
   /**
-   * Reset MQTT configuration
-   * @returns Command response
+   * Mark a reboot as pending until the device disconnects or
+   * REBOOT_DISCONNECT_TIMEOUT passes
+   * @param pending Whether a reboot is pending
+   * @private
    */
-  public async resetMqttConfig(): Promise<void> {
-    await this.sendCommand(COMMAND_TYPES.RESET_MQTT, null);
+  private _setRebootPending(pending: boolean): void {
+    if (this.rebootTimer) {
+      clearTimeout(this.rebootTimer);
+      this.rebootTimer = null;
+    }
+    this.rebootPending = pending;
+    if (pending) {
+      this.rebootTimer = setTimeout(() => {
+        this.rebootTimer = null;
+        this.rebootPending = false;
+      }, BLEDeviceManager.REBOOT_DISCONNECT_TIMEOUT);
+    }
   }
 
   /**
@@ -661,7 +668,7 @@ class BLEDeviceManager {
    * @returns Connection status
    */
   public isConnected(): boolean {
-    return this.connected;
+    return this.state === "connected";
   }
 
   /**
@@ -679,33 +686,7 @@ class BLEDeviceManager {
   public setAutoReconnect(enable: boolean): void {
     this.options.autoReconnect = enable;
   }
-
-  /**
-   * Send raw bytes to the device
-   * @param bytes Raw bytes to send as Uint8Array
-   * @returns Promise that resolves when command is sent
-   */
-  public async sendRawBytes(bytes: Uint8Array): Promise<void> {
-    if (!this.connected || !this.commandCharacteristic) {
-      throw new Error("Not connected to device");
-    }
-
-    try {
-      this.log(
-        `Sending raw command: ${Array.from(bytes)
-          .map((b) => "0x" + b.toString(16).padStart(2, "0"))
-          .join(" ")}`,
-      );
-
-      // Send the raw command
-      await this.commandCharacteristic.writeValueWithoutResponse(bytes);
-
-      this.log(`Raw command sent successfully`);
-    } catch (error) {
-      this._triggerEvent("error", error);
-      throw error;
-    }
-  }
 }
 
 export { BLEDeviceManager };
+export type { EventCallbackArgs, EventType };
@@ -0,0 +1,205 @@
+import { RuntimeInfo } from "@tomquist/hmjs-protocol";
+import { BLEFleetManager } from "./BLEFleetManager.js";
+
+/**
+ * Minimal stand-in for a Web Bluetooth device whose GATT connection completes
+ * after a delay
+ */
+function createStubDevice(
+  id: string,
+  connectDelay = 0,
+  attempts = { active: 0, max: 0 },
+) {
+  const listeners = new Set<() => void>();
+  const characteristic = {
+    startNotifications: async () => characteristic,
+    addEventListener: () => {},
+    removeEventListener: () => {},
+    writeValueWithoutResponse: async () => {},
+  };
+  const stub = {
+    id,
+    name: `HM_${id}`,
+    addEventListener: (_type: string, listener: () => void) => {
+      listeners.add(listener);
+    },
+    removeEventListener: (_type: string, listener: () => void) => {
+      listeners.delete(listener);
+    },
+    dropConnection: () => {
+      stub.gatt.connected = false;
+      listeners.forEach((listener) => listener());
+    },
+    gatt: {
+      connected: false,
+      connect: async () => {
+        attempts.active++;
+        attempts.max = Math.max(attempts.max, attempts.active);
+        await new Promise((resolve) => setTimeout(resolve, connectDelay));
+        attempts.active--;
+        stub.gatt.connected = true;
+        return {
+          getPrimaryService: async () => ({
+            getCharacteristic: async () => characteristic,
+          }),
+        };
+      },
+      disconnect: () => {
+        stub.gatt.connected = false;
+      },
+    },
+  };
+  return stub as unknown as BluetoothDevice & { dropConnection(): void };
+}
+
+function runtimeInfo(values: Partial<RuntimeInfo>): RuntimeInfo {
+  return {
+    soc: 0,
+    remainingCapacity: 0,
+    in1Power: 0,
+    in2Power: 0,
+    out1Power: 0,
+    out2Power: 0,
+    ...values,
+  } as RuntimeInfo;
+}
+
+describe("BLEFleetManager", () => {
+  it("should limit concurrent connection attempts", async () => {
+    const fleet = new BLEFleetManager({
+      logger: () => {},
+      maxConcurrentConnections: 2,
+    });
+    let connecting = 0;
+    let maxConnecting = 0;
+    fleet.on("stateChange", (_id, { previous, next }) => {
+      if (next === "connecting") connecting++;
+      if (previous === "discovering") connecting--;
+      maxConnecting = Math.max(maxConnecting, connecting);
+    });
+
+    for (const id of ["a", "b", "c", "d"]) {
+      fleet.addDevice(createStubDevice(id, 10));
+    }
+    const results = await fleet.connectAll();
+
+    expect(maxConnecting).toBe(2);
+    expect([...results.values()].map((result) => result.status)).toEqual([
+      "fulfilled",
+      "fulfilled",
+      "fulfilled",
+      "fulfilled",
+    ]);
+    expect(fleet.getManager("c")?.isConnected()).toBe(true);
+    fleet.disconnectAll();
+  });
+
+  it("should limit concurrent reconnect attempts", async () => {
+    const fleet = new BLEFleetManager({
+      logger: () => {},
+      reconnectDelay: 1,
+    });
+    const attempts = { active: 0, max: 0 };
+    const devices = ["a", "b", "c"].map((id) =>
+      createStubDevice(id, 10, attempts),
+    );
+    devices.forEach((device) => fleet.addDevice(device));
+    await fleet.connectAll();
+
+    let reconnects = 0;
+    fleet.on("reconnect", () => reconnects++);
+    devices.forEach((device) => device.dropConnection());
+    for (let i = 0; i < 100 && reconnects < devices.length; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+
+    expect(reconnects).toBe(3);
+    expect(attempts.max).toBe(1);
+    fleet.disconnectAll();
+  });
+
+  it("should tag forwarded events with the device ID", async () => {
+    const fleet = new BLEFleetManager({ logger: () => {} });
+    const connected: string[] = [];
+    fleet.on("connect", (id) => connected.push(id));
+
+    await fleet.connect(createStubDevice("a"));
+    await fleet.connect(createStubDevice("b"));
+
+    expect(connected).toEqual(["a", "b"]);
+    expect(fleet.getDeviceIds()).toEqual(["a", "b"]);
+  });
+
+  it("should stop forwarding events of removed devices", async () => {
+    const fleet = new BLEFleetManager({ logger: () => {} });
+    const events: string[] = [];
+    fleet.on("stateChange", (id, { next }) => events.push(`${id}:${next}`));
+
+    const device = createStubDevice("a");
+    const manager = await fleet.connect(device);
+    fleet.removeDevice("a");
+    expect(events.slice(-2)).toEqual(["a:disconnecting", "a:idle"]);
+    expect(fleet.getManager("a")).toBeNull();
+
+    events.length = 0;
+    await manager.connect(device);
+    expect(events).toEqual([]);
+  });
+
+  it("should aggregate runtime info weighted by capacity", () => {
+    const fleet = new BLEFleetManager({ logger: () => {} });
+    const a = fleet.addDevice(createStubDevice("a"), { capacity: 2000 });
+    const b = fleet.addDevice(createStubDevice("b"));
+    const c = fleet.addDevice(createStubDevice("c"));
+
+    a["_triggerEvent"](
+      "runtimeInfo",
+      runtimeInfo({ soc: 900, remainingCapacity: 1800, in1Power: 100 }),
+    );
+    // Capacity implied by SOC and remaining capacity: 6000Wh
+    b["_triggerEvent"](
+      "runtimeInfo",
+      runtimeInfo({ soc: 100, remainingCapacity: 600, out1Power: 50 }),
+    );
+    // Empty device: capacity unknown, weighted with the average (4000Wh)
+    c["_triggerEvent"](
+      "runtimeInfo",
+      runtimeInfo({ in2Power: 20, out2Power: 30 }),
+    );
+
+    expect(fleet.getRuntimeInfo("b")?.soc).toBe(100);
+    expect(fleet.getAggregateRuntimeInfo()).toEqual({
+      devices: 3,
+      soc: 200,
+      remainingCapacity: 2400,
+      inputPower: 120,
+      outputPower: 80,
+    });
+  });
+
+  it("should leave disconnected devices out of the aggregate", async () => {
+    const fleet = new BLEFleetManager({
+      logger: () => {},
+      autoReconnect: false,
+    });
+    const a = await fleet.connect(createStubDevice("a"));
+    const b = await fleet.connect(createStubDevice("b"));
+    a["_triggerEvent"]("runtimeInfo", runtimeInfo({ in1Power: 100 }));
+    b["_triggerEvent"]("runtimeInfo", runtimeInfo({ in1Power: 50 }));
+
+    fleet.disconnect("b");
+
+    expect(fleet.getRuntimeInfo("b")).toBeNull();
+    expect(fleet.getAggregateRuntimeInfo()).toMatchObject({
+      devices: 1,
+      inputPower: 100,
+    });
+    fleet.disconnectAll();
+  });
+
+  it("should reject an invalid concurrency limit", () => {
+    expect(() => new BLEFleetManager({ maxConcurrentConnections: 0 })).toThrow(
+      "maxConcurrentConnections must be a positive integer",
+    );
+  });
+});
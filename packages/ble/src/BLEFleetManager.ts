@@ -0,0 +1,380 @@
+/**
+ * BLEFleetManager - Manages connections to several HM battery devices that
+ * are installed side by side.
+ *
+ * Each device gets its own BLEDeviceManager. Their events are forwarded with
+ * the device ID as first argument, and connection and reconnection attempts
+ * are limited so the Bluetooth adapter never has to handle too many at once.
+ */
+import { RuntimeInfo } from "@tomquist/hmjs-protocol";
+import {
+  BLEDeviceManager,
+  EventCallbackArgs,
+  EventType,
+} from "./BLEDeviceManager.js";
+import {
+  BLEFleetManagerOptions,
+  BLEManagerOptions,
+  EventCallback,
+  FleetDeviceOptions,
+  FleetRuntimeSummary,
+} from "./types.js";
+
+type FleetEventCallbackArgs = {
+  [K in EventType]: [string, ...EventCallbackArgs[K]];
+};
+
+type FleetEventMap = {
+  [K in EventType]: Array<EventCallback<FleetEventCallbackArgs[K]>>;
+};
+
+interface FleetMember {
+  device: BluetoothDevice;
+  manager: BLEDeviceManager;
+  capacity?: number;
+  runtimeInfo: RuntimeInfo | null;
+  unsubscribe: () => void;
+}
+
+class BLEFleetManager {
+  private members = new Map<string, FleetMember>();
+  private managerOptions: BLEManagerOptions;
+  private maxConcurrentConnections: number;
+  private activeConnections: number = 0;
+  private connectionWaiters: Array<() => void> = [];
+  private scanner: BLEDeviceManager | null = null;
+  private logger: (message: string, ...args: unknown[]) => void;
+
+  // Event listeners; every device event is forwarded with its device ID
+  private eventListeners: FleetEventMap = {
+    connect: [],
+    disconnect: [],
+    reconnect: [],
+    stateChange: [],
+    reconnecting: [],
+    reconnectFailed: [],
+    deviceInfo: [],
+    runtimeInfo: [],
+    cellInfo: [],
+    normalizedRuntimeInfo: [],
+    normalizedCellInfo: [],
+    timers: [],
+    wifiInfo: [],
+    moduleInfo: [],
+    error: [],
+    rawData: [],
+    retry: [],
+  };
+
+  /**
+   * Constructor
+   * @param options Options for every device manager plus fleet settings
+   */
+  constructor(options: BLEFleetManagerOptions = {}) {
+    const { maxConcurrentConnections, ...managerOptions } = options;
+    this.maxConcurrentConnections = maxConcurrentConnections ?? 1;
+    if (
+      !Number.isInteger(this.maxConcurrentConnections) ||
+      this.maxConcurrentConnections < 1
+    ) {
+      throw new Error("maxConcurrentConnections must be a positive integer");
+    }
+    this.managerOptions = managerOptions;
+    this.logger = options.logger || console.log;
+  }
+
+  /**
+   * Register an event listener
+   * @param event Event name
+   * @param callback Callback receiving the device ID and the event arguments
+   * @returns This instance for chaining
+   */
+  public on<T extends EventType>(
+    event: T,
+    callback: EventCallback<FleetEventCallbackArgs[T]>,
+  ): BLEFleetManager {
+    if (this.eventListeners[event]) {
+      this.eventListeners[event].push(callback);
+    } else {
+      this.log(`Warning: Unknown event type "${event}"`);
+    }
+    return this;
+  }
+
+  /**
+   * Remove an event listener
+   * @param event Event name
+   * @param callback Callback function to remove
+   * @returns This instance for chaining
+   */
+  public off(event: string, callback: EventCallback): BLEFleetManager {
+    if (this.eventListeners[event]) {
+      this.eventListeners[event] = this.eventListeners[event].filter(
+        (cb: EventCallback) => cb !== callback,
+      );
+    }
+    return this;
+  }
+
+  /**
+   * Trigger an event
+   * @param event Event name
+   * @param args Event arguments, starting with the device ID
+   * @private
+   */
+  private _triggerEvent(event: string, ...args: unknown[]): void {
+    if (this.eventListeners[event]) {
+      for (const callback of this.eventListeners[event]) {
+        try {
+          callback(...args);
+        } catch (error) {
+          this.log(`Error in ${event} event handler:`, error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Log a message using the configured logger
+   * @private
+   */
+  private log(message: string, ...args: unknown[]): void {
+    this.logger(message, ...args);
+  }
+
+  /**
+   * Let the user pick a device. Scanning does not add the device to the fleet.
+   * @param options Optional scan options to override defaults
+   * @returns The selected device
+   */
+  public async scanForDevices(
+    options: Partial<BLEManagerOptions> = {},
+  ): Promise<BluetoothDevice> {
+    this.scanner ??= new BLEDeviceManager(this.managerOptions);
+    return this.scanner.scanForDevices(options);
+  }
+
+  /**
+   * Add a device to the fleet without connecting to it
+   * @param device Device to add
+   * @param options Per-device settings
+   * @returns The device's manager
+   */
+  public addDevice(
+    device: BluetoothDevice,
+    options: FleetDeviceOptions = {},
+  ): BLEDeviceManager {
+    const existing = this.members.get(device.id);
+    if (existing) {
+      if (options.capacity !== undefined) {
+        existing.capacity = options.capacity;
+      }
+      return existing.manager;
+    }
+
+    // The aggregates need raw runtime info even if only the normalized
+    // events are forwarded
+    const dataFormat = this.managerOptions.dataFormat ?? "raw";
+    const manager = new BLEDeviceManager({
+      ...this.managerOptions,
+      dataFormat: dataFormat === "normalized" ? "both" : dataFormat,
+      reconnectGate: (attempt) => this._withConnectionSlot(attempt),
+    });
+    const member: FleetMember = {
+      device,
+      manager,
+      capacity: options.capacity,
+      runtimeInfo: null,
+      unsubscribe: () => {},
+    };
+
+    const forwarders = (Object.keys(this.eventListeners) as EventType[]).map(
+      (event) => {
+        const forward = (...args: unknown[]) => {
+          if (event === "runtimeInfo") {
+            member.runtimeInfo = args[0] as RuntimeInfo;
+          }
+          // Offline devices no longer count towards the aggregates
+          if (event === "disconnect" || event === "reconnectFailed") {
+            member.runtimeInfo = null;
+          }
+          if (
+            dataFormat === "normalized" &&
+            (event === "runtimeInfo" || event === "cellInfo")
+          ) {
+            return;
+          }
+          this._triggerEvent(event, device.id, ...args);
+        };
+        manager.on(event, forward);
+        return () => manager.off(event, forward);
+      },
+    );
+    member.unsubscribe = () => forwarders.forEach((off) => off());
+
+    this.members.set(device.id, member);
+    return manager;
+  }
+
+  /**
+   * Remove a device from the fleet and disconnect it
+   * @param deviceId ID of the device
+   */
+  public removeDevice(deviceId: string): void {
+    const member = this.members.get(deviceId);
+    if (!member) return;
+
+    member.manager.stopPolling();
+    member.manager.disconnect();
+    member.unsubscribe();
+    member.runtimeInfo = null;
+    this.members.delete(deviceId);
+  }
+
+  /**
+   * Add a device if needed and connect to it. Connection attempts beyond
+   * `maxConcurrentConnections`, including automatic reconnects, wait for a
+   * free slot.
+   * @param device Device to connect to
+   * @param options Per-device settings
+   * @returns The device's manager
+   */
+  public async connect(
+    device: BluetoothDevice,
+    options: FleetDeviceOptions = {},
+  ): Promise<BLEDeviceManager> {
+    const manager = this.addDevice(device, options);
+    await this._withConnectionSlot(() => manager.connect(device));
+    return manager;
+  }
+
+  /**
+   * Connect every device that is idle or whose last connection failed
+   * @returns Outcome per device ID
+   */
+  public async connectAll(): Promise<
+    Map<string, PromiseSettledResult<BLEDeviceManager>>
+  > {
+    const devices = [...this.members.values()]
+      .filter((member) => {
+        const state = member.manager.getState();
+        return state === "idle" || state === "failed";
+      })
+      .map((member) => member.device);
+    const results = await Promise.allSettled(
+      devices.map((device) => this.connect(device)),
+    );
+    return new Map(results.map((result, i) => [devices[i].id, result]));
+  }
+
+  /**
+   * Disconnect a device but keep it in the fleet
+   * @param deviceId ID of the device
+   */
+  public disconnect(deviceId: string): void {
+    this.members.get(deviceId)?.manager.disconnect();
+  }
+
+  /**
+   * Disconnect all devices
+   */
+  public disconnectAll(): void {
+    for (const deviceId of this.members.keys()) {
+      this.disconnect(deviceId);
+    }
+  }
+
+  /**
+   * Get the manager of a device
+   * @param deviceId ID of the device
+   */
+  public getManager(deviceId: string): BLEDeviceManager | null {
+    return this.members.get(deviceId)?.manager ?? null;
+  }
+
+  /**
+   * IDs of all devices in the fleet
+   */
+  public getDeviceIds(): string[] {
+    return [...this.members.keys()];
+  }
+
+  /**
+   * Latest runtime info received from a device while it is connected
+   * @param deviceId ID of the device
+   */
+  public getRuntimeInfo(deviceId: string): RuntimeInfo | null {
+    return this.members.get(deviceId)?.runtimeInfo ?? null;
+  }
+
+  /**
+   * Combine the latest runtime info of all connected devices. The SOC is
+   * weighted by each device's capacity: the configured one, or the one implied
+   * by its remaining capacity and SOC. Devices whose capacity is unknown count
+   * with the average capacity of the others.
+   */
+  public getAggregateRuntimeInfo(): FleetRuntimeSummary {
+    const reports = [...this.members.values()].flatMap((member) => {
+      const info = member.runtimeInfo;
+      if (!info) return [];
+      const capacity =
+        member.capacity ??
+        (info.soc > 0 ? (info.remainingCapacity * 1000) / info.soc : null);
+      return [{ info, capacity }];
+    });
+
+    const knownCapacities = reports.flatMap((report) =>
+      report.capacity !== null ? [report.capacity] : [],
+    );
+    const averageCapacity = knownCapacities.length
+      ? knownCapacities.reduce((sum, capacity) => sum + capacity, 0) /
+        knownCapacities.length
+      : 1;
+
+    let weightedSoc = 0;
+    let totalCapacity = 0;
+    const summary: FleetRuntimeSummary = {
+      devices: reports.length,
+      soc: 0,
+      remainingCapacity: 0,
+      inputPower: 0,
+      outputPower: 0,
+    };
+
+    for (const { info, capacity } of reports) {
+      const weight = capacity ?? averageCapacity;
+      weightedSoc += info.soc * weight;
+      totalCapacity += weight;
+      summary.remainingCapacity += info.remainingCapacity;
+      summary.inputPower += info.in1Power + info.in2Power;
+      summary.outputPower += info.out1Power + info.out2Power;
+    }
+
+    if (totalCapacity > 0) {
+      summary.soc = Math.round(weightedSoc / totalCapacity);
+    }
+    return summary;
+  }
+
+  /**
+   * Run a connection attempt once a connection slot is free
+   * @private
+   */
+  private async _withConnectionSlot<T>(connect: () => Promise<T>): Promise<T> {
+    while (this.activeConnections >= this.maxConcurrentConnections) {
+      await new Promise<void>((resolve) =>
+        this.connectionWaiters.push(resolve),
+      );
+    }
+
+    this.activeConnections++;
+    try {
+      return await connect();
+    } finally {
+      this.activeConnections--;
+      this.connectionWaiters.shift()?.();
+    }
+  }
+}
+
+export { BLEFleetManager };
@@ -0,0 +1,196 @@
+import { CommandQueue } from "./CommandQueue.js";
+import { RetryEvent } from "./types.js";
+
+describe("CommandQueue", () => {
+  let sent: number[];
+  let queue: CommandQueue;
+
+  const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+  beforeEach(() => {
+    sent = [];
+    queue = new CommandQueue(async (commandType) => {
+      sent.push(commandType);
+    });
+  });
+
+  it("should resolve a request with the matching response", async () => {
+    const promise = queue.enqueue<string>({
+      commandType: 0x03,
+      responseType: 0x03,
+    });
+    await flush();
+    expect(queue.handleResponse(0x04, "device")).toBe(false);
+    expect(queue.handleResponse(0x03, "runtime")).toBe(true);
+    await expect(promise).resolves.toBe("runtime");
+  });
+
+  it("should keep one request per response type in flight", async () => {
+    const first = queue.enqueue<string>({
+      commandType: 0x03,
+      responseType: 0x03,
+    });
+    const second = queue.enqueue<string>({
+      commandType: 0x03,
+      responseType: 0x03,
+    });
+    const other = queue.enqueue<string>({
+      commandType: 0x04,
+      responseType: 0x04,
+    });
+    await flush();
+    expect(sent).toEqual([0x03, 0x04]);
+
+    queue.handleResponse(0x03, "first");
+    await expect(first).resolves.toBe("first");
+    await flush();
+    expect(sent).toEqual([0x03, 0x04, 0x03]);
+
+    queue.handleResponse(0x03, "second");
+    queue.handleResponse(0x04, "other");
+    await expect(second).resolves.toBe("second");
+    await expect(other).resolves.toBe("other");
+  });
+
+  it("should resolve write-only commands once written", async () => {
+    await expect(queue.enqueue({ commandType: 0x0b })).resolves.toBe(undefined);
+    expect(queue.size).toBe(0);
+  });
+
+  it("should send higher priority requests first", async () => {
+    let release: () => void = () => {};
+    queue = new CommandQueue(async (commandType) => {
+      sent.push(commandType);
+      if (commandType === 0x01) {
+        await new Promise<void>((resolve) => (release = resolve));
+      }
+    });
+
+    const blocker = queue.enqueue({ commandType: 0x01 });
+    const low = queue.enqueue({ commandType: 0x0b });
+    const high = queue.enqueue({ commandType: 0x0c, priority: 10 });
+    release();
+    await Promise.all([blocker, low, high]);
+    expect(sent).toEqual([0x01, 0x0c, 0x0b]);
+  });
+
+  it("should time out when no response arrives", async () => {
+    const promise = queue.enqueue({
+      commandType: 0x03,
+      responseType: 0x03,
+      timeout: 10,
+    });
+    await expect(promise).rejects.toThrow("Command timed out");
+    expect(queue.isInFlight(0x03)).toBe(false);
+  });
+
+  it("should time out a write that never completes", async () => {
+    const writes: number[] = [];
+    queue = new CommandQueue((commandType) => {
+      writes.push(commandType);
+      return commandType === 0x03 ? new Promise(() => {}) : Promise.resolve();
+    });
+
+    const hung = queue.enqueue({ commandType: 0x03, timeout: 10 });
+    const next = queue.enqueue({ commandType: 0x04 });
+
+    await expect(hung).rejects.toThrow("Command write timed out");
+    await expect(next).resolves.toBeUndefined();
+    expect(writes).toEqual([0x03, 0x04]);
+  });
+
+  it("should cancel a request through its abort signal", async () => {
+    const controller = new AbortController();
+    const promise = queue.enqueue({
+      commandType: 0x03,
+      responseType: 0x03,
+      signal: controller.signal,
+    });
+    controller.abort();
+    await expect(promise).rejects.toThrow("Command cancelled");
+    expect(queue.size).toBe(0);
+  });
+
+  it("should reject requests when the write fails", async () => {
+    queue = new CommandQueue(async () => {
+      throw new Error("Not connected to device");
+    });
+    await expect(
+      queue.enqueue({ commandType: 0x03, responseType: 0x03 }),
+    ).rejects.toThrow("Not connected to device");
+  });
+
+  it("should reject everything on clear", async () => {
+    const inFlight = queue.enqueue({ commandType: 0x03, responseType: 0x03 });
+    const queued = queue.enqueue({ commandType: 0x03, responseType: 0x03 });
+    await flush();
+    queue.clear(new Error("Disconnected from device"));
+    await expect(inFlight).rejects.toThrow("Disconnected from device");
+    await expect(queued).rejects.toThrow("Disconnected from device");
+  });
+
+  describe("retry policy", () => {
+    const retryPolicy = {
+      maxAttempts: 3,
+      initialDelay: 5,
+      maxDelay: 20,
+      backoffFactor: 2,
+      jitter: 0,
+      retryableCommands: [0x03],
+    };
+    let retries: RetryEvent[];
+
+    beforeEach(() => {
+      retries = [];
+      queue = new CommandQueue(
+        async (commandType) => {
+          sent.push(commandType);
+        },
+        { retryPolicy, onRetry: (event) => retries.push(event) },
+      );
+    });
+
+    it("should resend a query until the response arrives", async () => {
+      const promise = queue.enqueue<string>({
+        commandType: 0x03,
+        responseType: 0x03,
+        timeout: 50,
+      });
+      await new Promise((resolve) => setTimeout(resolve, 80));
+      expect(sent).toEqual([0x03, 0x03]);
+
+      queue.handleResponse(0x03, "runtime");
+      await expect(promise).resolves.toBe("runtime");
+      expect(retries).toEqual([
+        { commandType: 0x03, attempt: 2, maxAttempts: 3, delay: 5 },
+      ]);
+    });
+
+    it("should give up after the maximum number of attempts", async () => {
+      const promise = queue.enqueue({
+        commandType: 0x03,
+        responseType: 0x03,
+        timeout: 10,
+      });
+      await expect(promise).rejects.toThrow("Command timed out");
+      expect(sent).toEqual([0x03, 0x03, 0x03]);
+      expect(retries.map((event) => event.delay)).toEqual([5, 10]);
+    });
+
+    it("should not resend commands that are not retryable", async () => {
+      const promise = queue.enqueue({
+        commandType: 0x0b,
+        responseType: 0x0b,
+        timeout: 10,
+      });
+      await expect(promise).rejects.toThrow("Command timed out");
+      expect(sent).toEqual([0x0b]);
+      expect(retries).toEqual([]);
+    });
+
+    it("should not resend write-only commands", async () => {
+      await queue.enqueue({ commandType: 0x03 });
+      expect(sent).toEqual([0x03]);
+    });
+  });
+});
@@ -0,0 +1,334 @@
+/**
+ * CommandQueue - Serializes commands sent to an HM device and correlates
+ * responses with the requests that caused them.
+ *
+ * Only one write is performed at a time and at most one request per response
+ * type is in flight. Responses are matched to requests by their command byte.
+ * Requests whose response does not arrive in time are resent according to the
+ * retry policy, with exponential backoff between attempts. A write that does
+ * not complete within the request's timeout fails the request, so a hung
+ * write cannot block the queue.
+ */
+import { CommandRequestOptions, RetryEvent, RetryPolicy } from "./types.js";
+
+type Payload = Uint8Array | number[] | null;
+
+type SendFunction = (
+  commandType: number,
+  payload: Payload,
+  request: CommandRequest,
+) => Promise<void>;
+
+interface CommandRequest extends CommandRequestOptions {
+  /** Command type byte to send */
+  commandType: number;
+  /** Optional payload data */
+  payload?: Payload;
+  /** Command byte of the expected response, or null for write-only commands */
+  responseType?: number | null;
+}
+
+interface CommandQueueOptions {
+  /** Retry policy; requests are sent only once when omitted */
+  retryPolicy?: Required<RetryPolicy>;
+  /** Called before a request is resent */
+  onRetry?: (event: RetryEvent) => void;
+  logger?: (message: string, ...args: unknown[]) => void;
+}
+
+interface QueueEntry {
+  request: CommandRequest;
+  commandType: number;
+  payload: Payload;
+  responseType: number | null;
+  timeout: number;
+  priority: number;
+  sequence: number;
+  attempt: number;
+  signal?: AbortSignal;
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  timeoutId?: ReturnType<typeof setTimeout>;
+  retryId?: ReturnType<typeof setTimeout>;
+  onAbort?: () => void;
+  settled: boolean;
+}
+
+class CommandQueue {
+  // Default time to wait for a response
+  static readonly DEFAULT_TIMEOUT = 5000;
+
+  // Message of the error requests are rejected with when no response arrives
+  static readonly TIMEOUT_MESSAGE = "Command timed out";
+
+  // Message of the error requests are rejected with when their write hangs
+  static readonly WRITE_TIMEOUT_MESSAGE = "Command write timed out";
+
+  private pending: QueueEntry[] = [];
+  private inFlight = new Map<number, QueueEntry>();
+  private writing: boolean = false;
+  private sequence: number = 0;
+  private retryPolicy?: Required<RetryPolicy>;
+  private onRetry?: (event: RetryEvent) => void;
+  private logger?: (message: string, ...args: unknown[]) => void;
+
+  /**
+   * Constructor
+   * @param send Function that writes a command to the device
+   * @param options Retry policy, retry callback and logger
+   */
+  constructor(
+    private send: SendFunction,
+    options: CommandQueueOptions = {},
+  ) {
+    this.retryPolicy = options.retryPolicy;
+    this.onRetry = options.onRetry;
+    this.logger = options.logger;
+  }
+
+  /**
+   * Number of requests waiting to be sent or waiting for their response
+   */
+  public get size(): number {
+    return this.pending.length + this.inFlight.size;
+  }
+
+  /**
+   * Check whether a request for the given response type is in flight
+   * @param responseType Command byte of the response
+   */
+  public isInFlight(responseType: number): boolean {
+    return this.inFlight.has(responseType);
+  }
+
+  /**
+   * Queue a command
+   * @param request Command and request options
+   * @returns The response data, or undefined for write-only commands
+   */
+  public enqueue<T = void>(request: CommandRequest): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (request.signal?.aborted) {
+        reject(new Error("Command cancelled"));
+        return;
+      }
+
+      const entry: QueueEntry = {
+        request,
+        commandType: request.commandType,
+        payload: request.payload ?? null,
+        responseType: request.responseType ?? null,
+        timeout: request.timeout ?? CommandQueue.DEFAULT_TIMEOUT,
+        priority: request.priority ?? 0,
+        sequence: this.sequence++,
+        attempt: 1,
+        signal: request.signal,
+        resolve: resolve as (value: unknown) => void,
+        reject,
+        settled: false,
+      };
+
+      if (entry.signal) {
+        entry.onAbort = () =>
+          this.settle(entry, new Error("Command cancelled"), undefined);
+        entry.signal.addEventListener("abort", entry.onAbort, { once: true });
+      }
+
+      this.pending.push(entry);
+      this.pending.sort(
+        (a, b) => b.priority - a.priority || a.sequence - b.sequence,
+      );
+      void this.dispatch();
+    });
+  }
+
+  /**
+   * Resolve the in-flight request waiting for a response type
+   * @param responseType Command byte of the received response
+   * @param data Parsed response data
+   * @returns Whether a request was waiting for this response
+   */
+  public handleResponse(responseType: number, data: unknown): boolean {
+    const entry = this.inFlight.get(responseType);
+    if (!entry) return false;
+
+    this.settle(entry, null, data);
+    return true;
+  }
+
+  /**
+   * Reject all queued and in-flight requests
+   * @param error Error to reject the requests with
+   */
+  public clear(error: Error): void {
+    const entries = [...this.pending, ...this.inFlight.values()];
+    for (const entry of entries) {
+      this.settle(entry, error, undefined);
+    }
+  }
+
+  /**
+   * Send the next request that is allowed to go out
+   * @private
+   */
+  private async dispatch(): Promise<void> {
+    if (this.writing) return;
+
+    // A request being retried already owns its response type's slot
+    const index = this.pending.findIndex(
+      (entry) =>
+        entry.responseType === null ||
+        !this.inFlight.has(entry.responseType) ||
+        this.inFlight.get(entry.responseType) === entry,
+    );
+    if (index === -1) return;
+
+    const [entry] = this.pending.splice(index, 1);
+    this.writing = true;
+
+    if (entry.responseType !== null) {
+      this.inFlight.set(entry.responseType, entry);
+      entry.timeoutId = setTimeout(() => this.retry(entry), entry.timeout);
+    }
+
+    try {
+      await this.write(entry);
+      if (entry.responseType === null) {
+        this.settle(entry, null, undefined);
+      }
+    } catch (error) {
+      this.settle(
+        entry,
+        error instanceof Error ? error : new Error(String(error)),
+        undefined,
+      );
+    } finally {
+      this.writing = false;
+      void this.dispatch();
+    }
+  }
+
+  /**
+   * Write a request, failing if the write does not complete within the
+   * request's timeout
+   * @private
+   */
+  private async write(entry: QueueEntry): Promise<void> {
+    let writeTimeoutId: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      writeTimeoutId = setTimeout(
+        () => reject(new Error(CommandQueue.WRITE_TIMEOUT_MESSAGE)),
+        entry.timeout,
+      );
+    });
+
+    try {
+      await Promise.race([
+        this.send(entry.commandType, entry.payload, entry.request),
+        timeout,
+      ]);
+    } finally {
+      clearTimeout(writeTimeoutId);
+    }
+  }
+
+  /**
+   * Resend a request whose response did not arrive, or fail it once the retry
+   * policy is exhausted. The request keeps its response type's slot while
+   * waiting, so a late response still resolves it.
+   * @private
+   */
+  private retry(entry: QueueEntry): void {
+    const policy = this.retryPolicy;
+    if (
+      !policy ||
+      entry.attempt >= policy.maxAttempts ||
+      !policy.retryableCommands.includes(entry.commandType)
+    ) {
+      this.settle(entry, new Error(CommandQueue.TIMEOUT_MESSAGE), undefined);
+      return;
+    }
+
+    const delay = this.backoffDelay(entry.attempt, policy);
+    entry.attempt++;
+    this.log(
+      `No response to command 0x${entry.commandType.toString(16)}, retrying in ${delay}ms (attempt ${entry.attempt}/${policy.maxAttempts})`,
+    );
+    this.onRetry?.({
+      commandType: entry.commandType,
+      attempt: entry.attempt,
+      maxAttempts: policy.maxAttempts,
+      delay,
+    });
+
+    entry.retryId = setTimeout(() => {
+      if (entry.settled) return;
+      this.pending.push(entry);
+      this.pending.sort(
+        (a, b) => b.priority - a.priority || a.sequence - b.sequence,
+      );
+      void this.dispatch();
+    }, delay);
+  }
+
+  /**
+   * Delay before the next attempt, with exponential growth and jitter
+   * @private
+   */
+  private backoffDelay(attempt: number, policy: Required<RetryPolicy>): number {
+    const base = Math.min(
+      policy.maxDelay,
+      policy.initialDelay * Math.pow(policy.backoffFactor, attempt - 1),
+    );
+    const variation = base * policy.jitter * (Math.random() * 2 - 1);
+    return Math.max(0, Math.round(base + variation));
+  }
+
+  /**
+   * Resolve or reject a request and release its slot
+   * @private
+   */
+  private settle(entry: QueueEntry, error: Error | null, value: unknown): void {
+    if (entry.settled) return;
+    entry.settled = true;
+
+    if (entry.timeoutId) clearTimeout(entry.timeoutId);
+    if (entry.retryId) clearTimeout(entry.retryId);
+    if (entry.signal && entry.onAbort) {
+      entry.signal.removeEventListener("abort", entry.onAbort);
+    }
+
+    const pendingIndex = this.pending.indexOf(entry);
+    if (pendingIndex !== -1) this.pending.splice(pendingIndex, 1);
+    if (
+      entry.responseType !== null &&
+      this.inFlight.get(entry.responseType) === entry
+    ) {
+      this.inFlight.delete(entry.responseType);
+    }
+
+    if (error) {
+      this.log(
+        `Command 0x${entry.commandType.toString(16)} failed: ${error.message}`,
+      );
+      entry.reject(error);
+    } else {
+      entry.resolve(value);
+    }
+
+    void this.dispatch();
+  }
+
+  /**
+   * Log a message using the configured logger
+   * @private
+   */
+  private log(message: string, ...args: unknown[]): void {
+    if (this.logger) {
+      this.logger(message, ...args);
+    }
+  }
+}
+
+export { CommandQueue };
+export type { CommandRequest, CommandQueueOptions };
@@ -0,0 +1,83 @@
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  FileDeviceStore,
+  LocalStorageDeviceStore,
+  MemoryDeviceStore,
+  createDefaultDeviceStore,
+} from "./DeviceStore.js";
+
+describe("DeviceStore", () => {
+  const devices = [
+    { id: "a", name: "HM_A", lastConnected: 2 },
+    { id: "b", name: null, lastConnected: 1 },
+  ];
+
+  function createStorage(): Storage {
+    const items = new Map<string, string>();
+    return {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => void items.set(key, value),
+      removeItem: (key: string) => void items.delete(key),
+      clear: () => items.clear(),
+      key: (index: number) => [...items.keys()][index] ?? null,
+      get length() {
+        return items.size;
+      },
+    };
+  }
+
+  it("should keep devices in memory", () => {
+    const store = new MemoryDeviceStore();
+    expect(store.load()).toEqual([]);
+    store.save(devices);
+    expect(store.load()).toEqual(devices);
+  });
+
+  it("should keep devices in localStorage", () => {
+    const storage = createStorage();
+    new LocalStorageDeviceStore("known", storage).save(devices);
+    expect(new LocalStorageDeviceStore("known", storage).load()).toEqual(
+      devices,
+    );
+  });
+
+  it("should ignore malformed localStorage content", () => {
+    const storage = createStorage();
+    const store = new LocalStorageDeviceStore("known", storage);
+    storage.setItem("known", "not json");
+    expect(store.load()).toEqual([]);
+    storage.setItem("known", JSON.stringify([{ id: 1 }, devices[0]]));
+    expect(store.load()).toEqual([devices[0]]);
+  });
+
+  describe("FileDeviceStore", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), "hmjs-"));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it("should keep devices in a file", async () => {
+      const path = join(dir, "devices.json");
+      await new FileDeviceStore(path).save(devices);
+      await expect(new FileDeviceStore(path).load()).resolves.toEqual(devices);
+    });
+
+    it("should start empty when the file is missing or invalid", async () => {
+      const path = join(dir, "devices.json");
+      await expect(new FileDeviceStore(path).load()).resolves.toEqual([]);
+      await writeFile(path, "{", "utf8");
+      await expect(new FileDeviceStore(path).load()).resolves.toEqual([]);
+    });
+  });
+
+  it("should fall back to memory without localStorage", () => {
+    expect(createDefaultDeviceStore()).toBeInstanceOf(MemoryDeviceStore);
+  });
+});
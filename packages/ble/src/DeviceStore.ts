@@ -0,0 +1,125 @@
+/**
+ * Device stores - Persistence adapters for devices the user connected to
+ * before, so they can be reconnected without the chooser prompt.
+ */
+import { DeviceStore, KnownDevice } from "./types.js";
+
+/**
+ * Keeps known devices in memory only; they are lost on reload
+ */
+class MemoryDeviceStore implements DeviceStore {
+  private devices: KnownDevice[] = [];
+
+  public load(): KnownDevice[] {
+    return this.devices.map((device) => ({ ...device }));
+  }
+
+  public save(devices: KnownDevice[]): void {
+    this.devices = devices.map((device) => ({ ...device }));
+  }
+}
+
+/**
+ * Keeps known devices in the browser's localStorage
+ */
+class LocalStorageDeviceStore implements DeviceStore {
+  /**
+   * Constructor
+   * @param key localStorage key to store the devices under
+   * @param storage Storage to use (default: `localStorage`)
+   */
+  constructor(
+    private key: string = "hmjs:knownDevices",
+    private storage: Storage = globalThis.localStorage,
+  ) {
+    if (!storage) {
+      throw new Error("localStorage is not available");
+    }
+  }
+
+  public load(): KnownDevice[] {
+    return parseKnownDevices(this.storage.getItem(this.key));
+  }
+
+  public save(devices: KnownDevice[]): void {
+    this.storage.setItem(this.key, JSON.stringify(devices));
+  }
+}
+
+/**
+ * Keeps known devices in a JSON file (Node.js)
+ */
+class FileDeviceStore implements DeviceStore {
+  /**
+   * Constructor
+   * @param path Path of the JSON file
+   */
+  constructor(private path: string) {}
+
+  public async load(): Promise<KnownDevice[]> {
+    const fs = await loadFs();
+    try {
+      return parseKnownDevices(await fs.readFile(this.path, "utf8"));
+    } catch (error) {
+      if ((error as { code?: string }).code === "ENOENT") return [];
+      throw error;
+    }
+  }
+
+  public async save(devices: KnownDevice[]): Promise<void> {
+    const fs = await loadFs();
+    await fs.writeFile(this.path, JSON.stringify(devices, null, 2), "utf8");
+  }
+}
+
+/**
+ * Create the store used when none is configured: localStorage in browsers,
+ * memory elsewhere
+ */
+function createDefaultDeviceStore(): DeviceStore {
+  try {
+    if (typeof globalThis.localStorage !== "undefined") {
+      return new LocalStorageDeviceStore();
+    }
+  } catch {
+    // Accessing localStorage throws when storage is disabled
+  }
+  return new MemoryDeviceStore();
+}
+
+/**
+ * Parse stored devices, ignoring malformed content
+ */
+function parseKnownDevices(json: string | null): KnownDevice[] {
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json);
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (device): device is KnownDevice =>
+        typeof device?.id === "string" &&
+        (device.name === null || typeof device.name === "string") &&
+        typeof device.lastConnected === "number",
+    );
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Load Node's fs module without bundlers trying to resolve it
+ */
+async function loadFs(): Promise<{
+  readFile(path: string, encoding: "utf8"): Promise<string>;
+  writeFile(path: string, data: string, encoding: "utf8"): Promise<void>;
+}> {
+  const moduleName = "fs/promises";
+  return import(/* webpackIgnore: true */ /* @vite-ignore */ moduleName);
+}
+
+export {
+  MemoryDeviceStore,
+  LocalStorageDeviceStore,
+  FileDeviceStore,
+  createDefaultDeviceStore,
+};
@@ -0,0 +1,201 @@
+/**
+ * GattTransport - HMTransport over the command and status characteristics of
+ * an HM device's GATT service.
+ *
+ * Frames are written to the command characteristic and received as
+ * notifications of the status characteristic. A connection lost at the GATT
+ * level is reported to the close listeners; the transport can be opened again
+ * afterwards to reconnect.
+ */
+import { HMTransport } from "./types.js";
+
+interface GattTransportOptions {
+  /** Called once the GATT server is connected, before services are discovered */
+  onServerConnected?: () => void;
+  logger?: (message: string, ...args: unknown[]) => void;
+}
+
+class GattTransport implements HMTransport {
+  private commandCharacteristic: BluetoothRemoteGATTCharacteristic | null =
+    null;
+  private statusCharacteristic: BluetoothRemoteGATTCharacteristic | null = null;
+  private dataListeners = new Set<(data: DataView) => void>();
+  private closeListeners = new Set<() => void>();
+  private listening = false;
+
+  // Incremented by close() to abort an open() that is still in progress
+  private generation = 0;
+
+  // Service and characteristic UUIDs
+  static readonly SERVICE_UUID = "0000ff00-0000-1000-8000-00805f9b34fb";
+  static readonly COMMAND_CHARACTERISTIC_UUID =
+    "0000ff01-0000-1000-8000-00805f9b34fb";
+  static readonly STATUS_CHARACTERISTIC_UUID =
+    "0000ff02-0000-1000-8000-00805f9b34fb";
+
+  /**
+   * Constructor
+   * @param device Device to communicate with
+   * @param options Transport options
+   */
+  constructor(
+    private device: BluetoothDevice,
+    private options: GattTransportOptions = {},
+  ) {
+    this._handleNotification = this._handleNotification.bind(this);
+    this._handleDisconnected = this._handleDisconnected.bind(this);
+  }
+
+  /**
+   * Connect to the GATT server and set up the command and status
+   * characteristics
+   */
+  public async open(): Promise<void> {
+    const generation = this.generation;
+    if (!this.listening) {
+      this.device.addEventListener(
+        "gattserverdisconnected",
+        this._handleDisconnected,
+      );
+      this.listening = true;
+    }
+
+    // Connect to GATT server
+    this.log("Connecting to GATT server...");
+    const server = await this.device.gatt!.connect();
+    if (generation === this.generation) {
+      this.options.onServerConnected?.();
+    }
+
+    // Get primary service
+    this.log(`Getting primary service (${GattTransport.SERVICE_UUID})...`);
+    const service = await server.getPrimaryService(GattTransport.SERVICE_UUID);
+
+    // Get characteristics
+    this.log("Getting command characteristic...");
+    const commandCharacteristic = await service.getCharacteristic(
+      GattTransport.COMMAND_CHARACTERISTIC_UUID,
+    );
+
+    this.log("Getting status characteristic...");
+    const statusCharacteristic = await service.getCharacteristic(
+      GattTransport.STATUS_CHARACTERISTIC_UUID,
+    );
+
+    // Setup notification handler for status characteristic
+    await statusCharacteristic.startNotifications();
+
+    if (generation !== this.generation) {
+      // Closed while the connection was being set up
+      this.device.gatt?.disconnect();
+      throw new Error("Transport closed while opening");
+    }
+
+    this.commandCharacteristic = commandCharacteristic;
+    this.statusCharacteristic = statusCharacteristic;
+    statusCharacteristic.addEventListener(
+      "characteristicvaluechanged",
+      this._handleNotification,
+    );
+  }
+
+  /**
+   * Disconnect from the GATT server. Close listeners are not notified.
+   */
+  public close(): void {
+    this.generation++;
+    this._releaseCharacteristics();
+    if (this.listening) {
+      this.device.removeEventListener(
+        "gattserverdisconnected",
+        this._handleDisconnected,
+      );
+      this.listening = false;
+    }
+    this.device.gatt?.disconnect();
+  }
+
+  /**
+   * Write a frame to the command characteristic
+   * @param bytes Frame to write
+   */
+  public async write(bytes: Uint8Array): Promise<void> {
+    if (!this.commandCharacteristic) {
+      throw new Error("Not connected to device");
+    }
+    await this.commandCharacteristic.writeValueWithoutResponse(bytes);
+  }
+
+  /**
+   * Register a listener for status notifications
+   * @returns Function that removes the listener
+   */
+  public onData(listener: (data: DataView) => void): () => void {
+    this.dataListeners.add(listener);
+    return () => this.dataListeners.delete(listener);
+  }
+
+  /**
+   * Register a listener for connections lost at the GATT level
+   * @returns Function that removes the listener
+   */
+  public onClose(listener: () => void): () => void {
+    this.closeListeners.add(listener);
+    return () => this.closeListeners.delete(listener);
+  }
+
+  /**
+   * Stop listening to the characteristics of the current connection
+   * @private
+   */
+  private _releaseCharacteristics(): void {
+    this.statusCharacteristic?.removeEventListener(
+      "characteristicvaluechanged",
+      this._handleNotification,
+    );
+    this.commandCharacteristic = null;
+    this.statusCharacteristic = null;
+  }
+
+  /**
+   * Handle status characteristic notifications
+   * @param event Notification event
+   * @private
+   */
+  private _handleNotification(event: Event): void {
+    const value = (event.target as BluetoothRemoteGATTCharacteristic).value;
+
+    if (!value) {
+      this.log("Received empty notification value");
+      return;
+    }
+
+    for (const listener of this.dataListeners) {
+      listener(value);
+    }
+  }
+
+  /**
+   * Handle the GATT server disconnecting
+   * @private
+   */
+  private _handleDisconnected(): void {
+    this._releaseCharacteristics();
+    for (const listener of this.closeListeners) {
+      listener();
+    }
+  }
+
+  /**
+   * Log a message using the configured logger
+   * @private
+   */
+  private log(message: string, ...args: unknown[]): void {
+    if (this.options.logger) {
+      this.options.logger(message, ...args);
+    }
+  }
+}
+
+export { GattTransport };
+export type { GattTransportOptions };
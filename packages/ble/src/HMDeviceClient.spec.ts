@@ -0,0 +1,174 @@
+import {
+  COMMAND_TYPES,
+  CellInfoFormat,
+  HMDeviceProtocol,
+} from "@tomquist/hmjs-protocol";
+import { HMDeviceClient } from "./HMDeviceClient.js";
+import { HMTransport } from "./types.js";
+
+/**
+ * In-memory transport that records writes and lets the test push data
+ */
+function createMemoryTransport() {
+  const dataListeners = new Set<(data: DataView) => void>();
+  const closeListeners = new Set<() => void>();
+  const transport = {
+    open: jest.fn(async () => {}),
+    close: jest.fn(),
+    writes: [] as Uint8Array[],
+    write: async (bytes: Uint8Array) => {
+      transport.writes.push(bytes);
+    },
+    onData: (listener: (data: DataView) => void) => {
+      dataListeners.add(listener);
+      return () => dataListeners.delete(listener);
+    },
+    onClose: (listener: () => void) => {
+      closeListeners.add(listener);
+      return () => closeListeners.delete(listener);
+    },
+    receive: (bytes: Uint8Array) => {
+      for (const listener of dataListeners) {
+        listener(new DataView(bytes.buffer, bytes.byteOffset, bytes.length));
+      }
+    },
+    drop: () => {
+      for (const listener of closeListeners) {
+        listener();
+      }
+    },
+  };
+  return transport satisfies HMTransport;
+}
+
+describe("HMDeviceClient", () => {
+  const protocol = new HMDeviceProtocol();
+
+  it("should send commands and decode responses over the transport", async () => {
+    const transport = createMemoryTransport();
+    const client = new HMDeviceClient({ transport, logger: () => {} });
+    const events: unknown[] = [];
+    client.on("wifiInfo", (info) => events.push(info));
+
+    await client.open();
+    const request = client.getWifiInfo();
+    await Promise.resolve();
+
+    expect(transport.writes).toEqual([
+      protocol.createCommandMessage(COMMAND_TYPES.WIFI_INFO, null),
+    ]);
+    transport.receive(
+      protocol.createCommandMessage(
+        COMMAND_TYPES.WIFI_INFO,
+        protocol.stringToBytes("ssid=HomeNet,rssi=-61"),
+      ),
+    );
+
+    await expect(request).resolves.toMatchObject({
+      ssid: "HomeNet",
+      signal: -61,
+    });
+    expect(events).toHaveLength(1);
+    client.close();
+  });
+
+  it.each([
+    [false, 1],
+    [true, 0],
+  ])(
+    "should accept frames with a bad checksum unless strict (strict: %s)",
+    async (strictFrameValidation, count) => {
+      const transport = createMemoryTransport();
+      const client = new HMDeviceClient({
+        transport,
+        strictFrameValidation,
+        logger: () => {},
+      });
+      const events: unknown[] = [];
+      client.on("wifiInfo", (info) => events.push(info));
+      await client.open();
+
+      const frame = protocol.createCommandMessage(
+        COMMAND_TYPES.WIFI_INFO,
+        protocol.stringToBytes("ssid=HomeNet,rssi=-61"),
+      );
+      frame[frame.length - 1] ^= 0xff;
+      transport.receive(frame);
+
+      expect(events).toHaveLength(count);
+      client.close();
+    },
+  );
+
+  it("should emit normalized cell info instead of the raw form", async () => {
+    const transport = createMemoryTransport();
+    const client = new HMDeviceClient({
+      transport,
+      dataFormat: "normalized",
+      logger: () => {},
+    });
+    const raw = jest.fn();
+    const normalized = jest.fn();
+    client.on("cellInfo", raw);
+    client.on("normalizedCellInfo", normalized);
+
+    await client.open();
+    const request = client.getCellInfo();
+    await Promise.resolve();
+    transport.receive(
+      protocol.encodeCellInfo({
+        soc: 80,
+        temperature1: 25,
+        temperature2: 26,
+        cellVoltages: Array.from({ length: 14 }, () => 3250),
+        format: CellInfoFormat.PerCell,
+        cellCount: 14,
+      }),
+    );
+
+    // Requests still resolve with the raw form
+    await expect(request).resolves.toMatchObject({ soc: 80 });
+    expect(raw).not.toHaveBeenCalled();
+    expect(normalized).toHaveBeenCalledWith(
+      expect.objectContaining({
+        soc: { value: 80, unit: "%" },
+        cellVoltages: expect.arrayContaining([{ value: 3.25, unit: "V" }]),
+      }),
+    );
+    client.close();
+  });
+
+  it("should fail pending requests when the transport closes", async () => {
+    const transport = createMemoryTransport();
+    const client = new HMDeviceClient({ logger: () => {} });
+    const disconnect = jest.fn();
+    client.on("disconnect", disconnect);
+
+    await client.open(transport);
+    const request = client.getRuntimeInfo();
+    transport.drop();
+
+    await expect(request).rejects.toThrow("Disconnected from device");
+    expect(disconnect).toHaveBeenCalledTimes(1);
+    expect(client.isConnected()).toBe(false);
+    await expect(client.getRuntimeInfo()).rejects.toThrow(
+      "Not connected to device",
+    );
+  });
+
+  it("should close the transport", async () => {
+    const transport = createMemoryTransport();
+    const client = new HMDeviceClient({ transport, logger: () => {} });
+
+    await client.open();
+    client.close();
+
+    expect(transport.close).toHaveBeenCalledTimes(1);
+    expect(client.isConnected()).toBe(false);
+  });
+
+  it("should require a transport", async () => {
+    const client = new HMDeviceClient({ logger: () => {} });
+    await expect(client.open()).rejects.toThrow("No transport configured");
+  });
+});
@@ -0,0 +1,1087 @@
+/**
+ * HMDeviceClient - Command, response and convenience API for HM battery
+ * devices on top of any HMTransport.
+ *
+ * The client frames commands, correlates responses and decodes them into
+ * events. It does not know how bytes reach the device; BLEDeviceManager adds
+ * Web Bluetooth scanning and reconnects on top of it, and other transports
+ * can be used with `open(transport)`.
+ */
+import {
+  COMMAND_TYPES,
+  DeviceInfo,
+  RuntimeInfo,
+  CellInfo,
+  NormalizedRuntimeInfo,
+  NormalizedCellInfo,
+  MQTTConfig,
+  TimerInfo,
+  TimerSchedule,
+  WifiInfo,
+  ModuleFirmwareInfo,
+  DeviceDateTime,
+  DeviceRegion,
+  DeviceIdentity,
+  DeviceCapabilities,
+  HMDeviceProtocol,
+  FrameAssembler,
+} from "@tomquist/hmjs-protocol";
+import {
+  CommandRequestOptions,
+  EventCallback,
+  HMDeviceClientOptions,
+  HMTransport,
+  PollingOptions,
+  RetryEvent,
+  RetryPolicy,
+} from "./types.js";
+import { CommandQueue } from "./CommandQueue.js";
+import { PollingScheduler } from "./PollingScheduler.js";
+
+type HMDeviceClientEventCallbackArgs = {
+  error: [Error];
+  disconnect: [];
+  deviceInfo: [DeviceInfo];
+  runtimeInfo: [RuntimeInfo];
+  cellInfo: [CellInfo];
+  normalizedRuntimeInfo: [NormalizedRuntimeInfo];
+  normalizedCellInfo: [NormalizedCellInfo];
+  timers: [TimerSchedule];
+  wifiInfo: [WifiInfo];
+  moduleInfo: [ModuleFirmwareInfo];
+  rawData: [Uint8Array];
+  retry: [RetryEvent];
+};
+
+type EventListenerMap<TEvents extends Record<keyof TEvents, unknown[]>> = {
+  [K in keyof TEvents]: Array<EventCallback<TEvents[K]>>;
+};
+
+type ResolvedClientOptions = Required<
+  Omit<HMDeviceClientOptions, "transport" | "retryPolicy">
+> & {
+  retryPolicy: Required<RetryPolicy>;
+};
+
+class HMDeviceClient<
+  TEvents extends HMDeviceClientEventCallbackArgs &
+    Record<keyof TEvents, unknown[]> = HMDeviceClientEventCallbackArgs,
+> {
+  // Options with defaults
+  protected options: ResolvedClientOptions;
+
+  // Transport the client talks over and its listener registrations
+  protected transport: HMTransport | null = null;
+  private transportSubscriptions: Array<() => void> = [];
+  private opened: boolean = false;
+
+  // Protocol handler
+  protected protocol: HMDeviceProtocol;
+
+  // Reassembles frames split across or packed into notifications
+  private frameAssembler: FrameAssembler;
+  private frameFlushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Serializes commands and correlates responses
+  protected commandQueue: CommandQueue;
+
+  // Periodic info requests, active only while connected
+  protected poller: PollingScheduler | null = null;
+
+  // Device type and firmware versions seen on the current transport
+  private identity: DeviceIdentity = {};
+
+  // Idle time after which a buffered cell info payload is considered complete
+  static readonly FRAME_FLUSH_DELAY = 200;
+
+  // Runtime info reads used to confirm a changed setting
+  static readonly CONFIRM_ATTEMPTS = 3;
+
+  // Read-only queries that are safe to resend when the response is missing
+  static readonly QUERY_COMMANDS: readonly number[] = [
+    COMMAND_TYPES.RUNTIME_INFO,
+    COMMAND_TYPES.DEVICE_INFO,
+    COMMAND_TYPES.WIFI_INFO,
+    COMMAND_TYPES.CELL_INFO,
+    COMMAND_TYPES.GET_TIMERS,
+    COMMAND_TYPES.MODULE_INFO,
+  ];
+
+  // Event listeners by event; subclasses register the events they add
+  protected eventListeners: Partial<EventListenerMap<TEvents>> = {};
+
+  /**
+   * Constructor
+   * @param options Configuration options
+   */
+  constructor(options: HMDeviceClientOptions = {}) {
+    // Set default options
+    this.options = {
+      logger: options.logger || console.log,
+      strictFrameValidation: options.strictFrameValidation ?? false,
+      autoSyncClock: options.autoSyncClock ?? false,
+      maxClockDrift: options.maxClockDrift ?? 2,
+      timeZone:
+        options.timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone,
+      allowDestructiveCommands: options.allowDestructiveCommands ?? false,
+      enforceCapabilities: options.enforceCapabilities ?? true,
+      dataFormat: options.dataFormat ?? "raw",
+      retryPolicy: {
+        maxAttempts: options.retryPolicy?.maxAttempts ?? 3,
+        initialDelay: options.retryPolicy?.initialDelay ?? 500,
+        maxDelay: options.retryPolicy?.maxDelay ?? 5000,
+        backoffFactor: options.retryPolicy?.backoffFactor ?? 2,
+        jitter: options.retryPolicy?.jitter ?? 0.2,
+        retryableCommands: options.retryPolicy?.retryableCommands ?? [
+          ...HMDeviceClient.QUERY_COMMANDS,
+        ],
+      },
+    };
+    this.transport = options.transport ?? null;
+
+    this._registerEvents([
+      "disconnect",
+      "deviceInfo",
+      "runtimeInfo",
+      "cellInfo",
+      "normalizedRuntimeInfo",
+      "normalizedCellInfo",
+      "timers",
+      "wifiInfo",
+      "moduleInfo",
+      "error",
+      "rawData",
+      "retry",
+    ]);
+
+    // Initialize protocol handler
+    this.protocol = new HMDeviceProtocol({
+      logger: this.options.logger,
+      strict: this.options.strictFrameValidation,
+    });
+    // Lenient clients hand frames with a bad checksum to the parser
+    this.frameAssembler = new FrameAssembler({
+      logger: this.options.logger,
+      verifyChecksum: this.options.strictFrameValidation,
+    });
+    this.commandQueue = new CommandQueue(
+      (commandType, payload) => this.sendCommand(commandType, payload),
+      {
+        retryPolicy: this.options.retryPolicy,
+        onRetry: (event) => this._triggerEvent("retry", event),
+        logger: this.options.logger,
+      },
+    );
+
+    // Bind methods to preserve 'this' context
+    this.sendCommand = this.sendCommand.bind(this);
+  }
+
+  /**
+   * Register an event listener
+   * @param event Event name
+   * @param callback Callback function
+   * @returns This instance for chaining
+   */
+  public on<T extends keyof TEvents>(
+    event: T,
+    callback: EventCallback<TEvents[T]>,
+  ): this {
+    const listeners = this.eventListeners[event];
+    if (listeners) {
+      listeners.push(callback);
+    } else {
+      this.log(`Warning: Unknown event type "${String(event)}"`);
+    }
+    return this;
+  }
+
+  /**
+   * Remove an event listener
+   * @param event Event name
+   * @param callback Callback function to remove
+   * @returns This instance for chaining
+   */
+  public off(event: string, callback: EventCallback): this {
+    const listeners = this.eventListeners as Record<string, EventCallback[]>;
+    if (listeners[event]) {
+      listeners[event] = listeners[event].filter((cb) => cb !== callback);
+    }
+    return this;
+  }
+
+  /**
+   * Accept listeners for the given events
+   * @param events Event names
+   * @private
+   */
+  protected _registerEvents(events: ReadonlyArray<keyof TEvents>): void {
+    for (const event of events) {
+      this.eventListeners[event] = [];
+    }
+  }
+
+  /**
+   * Trigger an event
+   * @param event Event name
+   * @param args Arguments to pass to the callback
+   * @private
+   */
+  protected _triggerEvent(event: string, ...args: unknown[]): void {
+    const listeners = this.eventListeners as Record<string, EventCallback[]>;
+    if (listeners[event]) {
+      for (const callback of listeners[event]) {
+        try {
+          callback(...args);
+        } catch (error) {
+          this.log(`Error in ${event} event handler:`, error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Log a message using the configured logger
+   * @param args Arguments to log
+   * @private
+   */
+  protected log(message: string, ...args: unknown[]): void {
+    if (this.options.logger) {
+      this.options.logger(message, ...args);
+    }
+  }
+
+  /**
+   * Open the transport and start talking to the device
+   * @param transport Transport to use instead of the configured one
+   */
+  public async open(transport?: HMTransport): Promise<void> {
+    if (this.opened) {
+      this.log("Transport already open");
+      return;
+    }
+
+    const target = transport ?? this.transport;
+    if (!target) {
+      throw new Error("No transport configured");
+    }
+
+    this._attachTransport(target);
+    try {
+      await target.open();
+    } catch (error) {
+      this._detachTransport();
+      this._triggerEvent("error", error);
+      throw error;
+    }
+
+    this.opened = true;
+    this.poller?.resume();
+    this.log("Transport opened");
+    this._autoSyncClock();
+  }
+
+  /**
+   * Close the transport
+   */
+  public close(): void {
+    if (!this.opened) return;
+
+    this.opened = false;
+    this.poller?.pause();
+    this._resetSession();
+    this.transport?.close();
+    this._detachTransport();
+    this._triggerEvent("disconnect");
+  }
+
+  /**
+   * Start listening to a transport
+   * @param transport Transport to use
+   * @private
+   */
+  protected _attachTransport(transport: HMTransport): void {
+    this._detachTransport();
+    this.transport = transport;
+    this.identity = {};
+    this.transportSubscriptions = [
+      transport.onData((data) => this._handleData(data)),
+      transport.onClose(() => this._handleTransportClose()),
+    ];
+  }
+
+  /**
+   * Stop listening to the current transport. The transport is kept so
+   * open() can reuse it.
+   * @private
+   */
+  protected _detachTransport(): void {
+    for (const unsubscribe of this.transportSubscriptions) {
+      unsubscribe();
+    }
+    this.transportSubscriptions = [];
+  }
+
+  /**
+   * Handle the transport closing on its own
+   * @private
+   */
+  protected _handleTransportClose(): void {
+    if (!this.opened) return;
+
+    this.log("Transport closed");
+    this.opened = false;
+    this.poller?.pause();
+    this._resetSession();
+    this._detachTransport();
+    this._triggerEvent("disconnect");
+  }
+
+  /**
+   * Drop partially received frames and fail all pending requests
+   * @private
+   */
+  protected _resetSession(): void {
+    // Drop any partially received frame
+    if (this.frameFlushTimer) {
+      clearTimeout(this.frameFlushTimer);
+      this.frameFlushTimer = null;
+    }
+    this.frameAssembler.reset();
+
+    // Fail all requests that are still waiting
+    this.commandQueue.clear(new Error("Disconnected from device"));
+  }
+
+  /**
+   * Handle bytes received from the transport
+   * @param value Received chunk
+   * @private
+   */
+  private _handleData(value: DataView): void {
+    // Always emit raw data event for advanced mode
+    this._triggerEvent(
+      "rawData",
+      new Uint8Array(value.buffer, value.byteOffset, value.byteLength),
+    );
+
+    // Chunks may carry partial or multiple frames
+    if (this.frameFlushTimer) {
+      clearTimeout(this.frameFlushTimer);
+      this.frameFlushTimer = null;
+    }
+    for (const frame of this.frameAssembler.push(value)) {
+      this._handleFrame(frame);
+    }
+
+    // Release a trailing cell info payload and skip a binary frame that never
+    // completes once the device stops sending
+    if (this.frameAssembler.pendingBytes > 0) {
+      this.frameFlushTimer = setTimeout(() => {
+        this.frameFlushTimer = null;
+        for (const frame of this.frameAssembler.flush()) {
+          this._handleFrame(frame);
+        }
+      }, HMDeviceClient.FRAME_FLUSH_DELAY);
+    }
+  }
+
+  /**
+   * Parse a complete frame and dispatch it to the matching event
+   * @param frame Complete frame cut out by the frame assembler
+   * @private
+   */
+  private _handleFrame(frame: Uint8Array): void {
+    // Attempt to determine what type of response this is
+    try {
+      // Use protocol to get command type
+      const msg = this.protocol.parseMessage(
+        new DataView(frame.buffer, frame.byteOffset, frame.byteLength),
+      );
+      if (msg.type !== "unknown") {
+        this.commandQueue.handleResponse(msg.type, msg.data);
+      }
+      switch (msg.type) {
+        case COMMAND_TYPES.RUNTIME_INFO:
+          this.identity.devVersion = msg.data.devVersion;
+          this.identity.deviceSubVersion = msg.data.deviceSubVersion;
+          this.identity.dailyTotals =
+            msg.data.dailyTotalBatteryCharge !== undefined;
+          if (this.options.dataFormat !== "normalized") {
+            this._triggerEvent("runtimeInfo", msg.data);
+          }
+          if (this.options.dataFormat !== "raw") {
+            this._triggerEvent(
+              "normalizedRuntimeInfo",
+              this.protocol.toNormalizedRuntime(msg.data),
+            );
+          }
+          break;
+        case COMMAND_TYPES.DEVICE_INFO:
+          this.identity.type = msg.data.type;
+          this._triggerEvent("deviceInfo", msg.data);
+          break;
+        case COMMAND_TYPES.CELL_INFO:
+          if (this.options.dataFormat !== "normalized") {
+            this._triggerEvent("cellInfo", msg.data);
+          }
+          if (this.options.dataFormat !== "raw") {
+            this._triggerEvent(
+              "normalizedCellInfo",
+              this.protocol.toNormalizedCellInfo(msg.data),
+            );
+          }
+          break;
+        case COMMAND_TYPES.GET_TIMERS:
+          this.identity.timerCount = msg.data.timers.length;
+          this._triggerEvent("timers", msg.data);
+          break;
+        case COMMAND_TYPES.WIFI_INFO:
+          this._triggerEvent("wifiInfo", msg.data);
+          break;
+        case COMMAND_TYPES.MODULE_INFO:
+          this._triggerEvent("moduleInfo", msg.data);
+          break;
+        default:
+          // Handle unknown command type
+          this.log(
+            `Unknown command type: ${msg.type}`,
+            msg.error,
+            msg.details,
+            Array.from(msg.rawData)
+              .map((b) => `0x${b.toString(16).padStart(2, "0")}`)
+              .join(" "),
+          );
+          break;
+      }
+    } catch (error) {
+      this.log(
+        `Error processing notification: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  /**
+   * Write a command to the device
+   * @param commandType Command type
+   * @param payload Optional payload data
+   */
+  private async sendCommand(
+    commandType: number,
+    payload: Uint8Array | number[] | null = null,
+  ): Promise<void> {
+    if (!this.isConnected() || !this.transport) {
+      throw new Error("Not connected to device");
+    }
+
+    try {
+      // Create the command message using the protocol
+      const command = this.protocol.createCommandMessage(commandType, payload);
+      await this.transport.write(command);
+
+      this.log(`Command sent: 0x${commandType.toString(16)}`);
+    } catch (error) {
+      this._triggerEvent("error", error);
+      throw error;
+    }
+  }
+
+  // ====== Convenience API Methods ======
+
+  /**
+   * Queue a command and wait for the response with the same command byte
+   * @param commandType Command type
+   * @param payload Optional payload data
+   * @param options Request options
+   * @returns Response data
+   * @private
+   */
+  private async _request<T>(
+    commandType: number,
+    payload: Uint8Array | number[] | null,
+    options: CommandRequestOptions = {},
+  ): Promise<T> {
+    this._assertCommandSupported(commandType);
+    return this.commandQueue.enqueue<T>({
+      ...options,
+      commandType,
+      payload,
+      responseType: commandType,
+    });
+  }
+
+  /**
+   * Queue a command that does not produce a response
+   * @param commandType Command type
+   * @param payload Optional payload data
+   * @param options Request options
+   * @private
+   */
+  private async _send(
+    commandType: number,
+    payload: Uint8Array | number[] | null,
+    options: CommandRequestOptions = {},
+  ): Promise<void> {
+    this._assertCommandSupported(commandType);
+    return this.commandQueue.enqueue({
+      ...options,
+      commandType,
+      payload,
+      responseType: null,
+    });
+  }
+
+  /**
+   * Refuse a command the device is known not to support, if enabled
+   * @param commandType Command type
+   * @private
+   */
+  private _assertCommandSupported(commandType: number): void {
+    if (!this.options.enforceCapabilities) return;
+
+    const capabilities = this.protocol.resolveCapabilities(this.identity);
+    if (capabilities.commands.includes(commandType)) return;
+
+    const name =
+      Object.entries(COMMAND_TYPES)
+        .find(([, value]) => value === commandType)?.[0]
+        .toLowerCase()
+        .replace(/_/g, " ") ?? `command 0x${commandType.toString(16)}`;
+    throw new Error(
+      `Refusing to send ${name}: not supported by ${this.identity.type} with firmware ${this.identity.devVersion}`,
+    );
+  }
+
+  /**
+   * Refuse more timers than the device reported in its timer response, if
+   * enabled
+   * @param count Number of timers to send
+   * @private
+   */
+  private _assertTimerCountSupported(count: number): void {
+    if (!this.options.enforceCapabilities) return;
+
+    const { timerCount } = this.protocol.resolveCapabilities(this.identity);
+    if (timerCount === undefined || count <= timerCount) return;
+
+    throw new Error(
+      `Refusing to send set timers: ${this.identity.type ?? "the device"} supports ${timerCount} timers, got ${count}`,
+    );
+  }
+
+  /**
+   * Get the commands and runtime fields the device supports. Device and
+   * runtime info are requested first unless they were received before.
+   * @returns Capabilities of the connected device
+   */
+  public async getCapabilities(
+    options?: CommandRequestOptions,
+  ): Promise<DeviceCapabilities> {
+    if (this.identity.type === undefined) {
+      await this.getDeviceInfo(options);
+    }
+    if (this.identity.devVersion === undefined) {
+      await this.getRuntimeInfo(options);
+    }
+    return this.protocol.resolveCapabilities(this.identity);
+  }
+
+  /**
+   * Get device information
+   * @returns Device information
+   */
+  public async getDeviceInfo(
+    options?: CommandRequestOptions,
+  ): Promise<DeviceInfo> {
+    return this._request(COMMAND_TYPES.DEVICE_INFO, null, options);
+  }
+
+  /**
+   * Get runtime information
+   * @returns Runtime information
+   */
+  public async getRuntimeInfo(
+    options?: CommandRequestOptions,
+  ): Promise<RuntimeInfo> {
+    return this._request(COMMAND_TYPES.RUNTIME_INFO, null, options);
+  }
+
+  /**
+   * Get battery cell information
+   * @returns Cell information
+   */
+  public async getCellInfo(options?: CommandRequestOptions): Promise<CellInfo> {
+    return this._request(COMMAND_TYPES.CELL_INFO, null, options);
+  }
+
+  /**
+   * Get WiFi module connection details
+   * @returns WiFi information
+   */
+  public async getWifiInfo(options?: CommandRequestOptions): Promise<WifiInfo> {
+    return this._request(COMMAND_TYPES.WIFI_INFO, null, options);
+  }
+
+  /**
+   * Get FC41D WiFi module firmware details
+   * @returns Module firmware information
+   */
+  public async getModuleInfo(
+    options?: CommandRequestOptions,
+  ): Promise<ModuleFirmwareInfo> {
+    return this._request(COMMAND_TYPES.MODULE_INFO, null, options);
+  }
+
+  /**
+   * Get the timer schedule
+   * @returns Timer schedule including adaptive mode and smart meter state
+   */
+  public async getTimers(
+    options?: CommandRequestOptions,
+  ): Promise<TimerSchedule> {
+    return this._request(COMMAND_TYPES.GET_TIMERS, [0x00], options);
+  }
+
+  /**
+   * Configure the output power timers and confirm them from the device
+   * @param timers Timers to configure (1-5, depending on firmware)
+   * @returns Timer schedule reported by the device after the change
+   */
+  public async setTimers(
+    timers: TimerInfo[],
+    options?: CommandRequestOptions,
+  ): Promise<TimerSchedule> {
+    this._assertTimerCountSupported(timers.length);
+    const payload = this.protocol.createSetTimersPayload(timers);
+
+    await this._send(COMMAND_TYPES.SET_TIMERS, payload, options);
+
+    const schedule = await this.getTimers(options);
+    const matches = timers.every((timer, index) => {
+      const actual = schedule.timers[index];
+      return (
+        actual &&
+        actual.enabled === timer.enabled &&
+        actual.start.hour === timer.start.hour &&
+        actual.start.minute === timer.start.minute &&
+        actual.end.hour === timer.end.hour &&
+        actual.end.minute === timer.end.minute &&
+        actual.outputPower === timer.outputPower
+      );
+    });
+    if (!matches) {
+      throw new Error("Device did not confirm the timer schedule");
+    }
+    return schedule;
+  }
+
+  /**
+   * Set the depth of discharge and confirm it from the runtime info
+   * @param percent Depth of discharge in percent (0-100)
+   * @returns Runtime information reflecting the new setting
+   */
+  public async setDepthOfDischarge(
+    percent: number,
+    options?: CommandRequestOptions,
+  ): Promise<RuntimeInfo> {
+    const payload = this.protocol.createDepthOfDischargePayload(percent);
+
+    await this._send(COMMAND_TYPES.SET_DOD, payload, options);
+
+    return this._confirmRuntimeInfo(
+      (info) => info.dod === percent,
+      `depth of discharge ${percent}%`,
+      options,
+    );
+  }
+
+  /**
+   * Set the discharge threshold and confirm it from the runtime info
+   * @param watts Discharge threshold in watts
+   * @returns Runtime information reflecting the new setting
+   */
+  public async setDischargeThreshold(
+    watts: number,
+    options?: CommandRequestOptions,
+  ): Promise<RuntimeInfo> {
+    const payload = this.protocol.createDischargeThresholdPayload(watts);
+
+    await this._send(COMMAND_TYPES.SET_DISCHARGE_THRESHOLD, payload, options);
+
+    return this._confirmRuntimeInfo(
+      (info) => info.dischargeThreshold === watts,
+      `discharge threshold ${watts}W`,
+      options,
+    );
+  }
+
+  /**
+   * Enable or disable load first mode and confirm it from the runtime info
+   * @param enabled Whether load first mode should be enabled
+   * @returns Runtime information reflecting the new setting
+   */
+  public async setLoadFirst(
+    enabled: boolean,
+    options?: CommandRequestOptions,
+  ): Promise<RuntimeInfo> {
+    const current = await this.getRuntimeInfo(options);
+    const chargeMode = this.protocol.encodeChargeMode({
+      ...current.chargeMode,
+      loadFirst: enabled,
+    });
+
+    await this._send(COMMAND_TYPES.SET_LOAD_FIRST, [chargeMode], options);
+
+    return this._confirmRuntimeInfo(
+      (info) => info.chargeMode.loadFirst === enabled,
+      `load first ${enabled ? "enabled" : "disabled"}`,
+      options,
+    );
+  }
+
+  /**
+   * Enable or disable the outputs and confirm them from the runtime info.
+   * Outputs that are not specified keep their current state.
+   * @param outputs Desired output states
+   * @returns Runtime information reflecting the new setting
+   */
+  public async setOutputs(
+    outputs: { out1?: boolean; out2?: boolean },
+    options?: CommandRequestOptions,
+  ): Promise<RuntimeInfo> {
+    const current = await this.getRuntimeInfo(options);
+    const setting = {
+      ...current.dischargeSetting,
+      out1Enable: outputs.out1 ?? current.dischargeSetting.out1Enable,
+      out2Enable: outputs.out2 ?? current.dischargeSetting.out2Enable,
+    };
+
+    await this._send(
+      COMMAND_TYPES.SET_POWER_OUT,
+      [this.protocol.encodeDischargeSetting(setting)],
+      options,
+    );
+
+    return this._confirmRuntimeInfo(
+      (info) =>
+        info.dischargeSetting.out1Enable === setting.out1Enable &&
+        info.dischargeSetting.out2Enable === setting.out2Enable,
+      `output 1 ${setting.out1Enable ? "on" : "off"}, output 2 ${setting.out2Enable ? "on" : "off"}`,
+      options,
+    );
+  }
+
+  /**
+   * Enable adaptive mode and confirm it from the timer schedule
+   * @returns Timer schedule reflecting the new setting
+   */
+  public async enableAdaptiveMode(
+    options?: CommandRequestOptions,
+  ): Promise<TimerSchedule> {
+    await this._send(COMMAND_TYPES.ENABLE_ADAPTIVE_MODE, [0x00], options);
+
+    const schedule = await this.getTimers(options);
+    if (!schedule.adaptiveMode) {
+      throw new Error("Device did not confirm adaptive mode");
+    }
+    return schedule;
+  }
+
+  /**
+   * Read runtime info until it reflects a setting that was just written
+   * @param predicate Check whether the runtime info reflects the change
+   * @param description Human readable description of the expected state
+   * @returns The confirming runtime info
+   * @private
+   */
+  private async _confirmRuntimeInfo(
+    predicate: (info: RuntimeInfo) => boolean,
+    description: string,
+    options?: CommandRequestOptions,
+  ): Promise<RuntimeInfo> {
+    for (
+      let attempt = 1;
+      attempt <= HMDeviceClient.CONFIRM_ATTEMPTS;
+      attempt++
+    ) {
+      const info = await this.getRuntimeInfo(options);
+      if (predicate(info)) {
+        return info;
+      }
+      this.log(
+        `Device does not report ${description} yet (attempt ${attempt}/${HMDeviceClient.CONFIRM_ATTEMPTS})`,
+      );
+    }
+
+    throw new Error(`Device did not confirm ${description}`);
+  }
+
+  /**
+   * Set the device clock
+   * @param date Point in time to set (defaults to now)
+   * @param options Time zone the device clock runs in and request options
+   * @returns The wall-clock date and time that was sent
+   */
+  public async syncClock(
+    date: Date = new Date(),
+    options: CommandRequestOptions & { timeZone?: string } = {},
+  ): Promise<DeviceDateTime> {
+    const { timeZone = this.options.timeZone, ...requestOptions } = options;
+    const dateTime = this.protocol.toDeviceDateTime(date, timeZone);
+    const payload = this.protocol.createDateTimePayload(dateTime);
+
+    await this._send(COMMAND_TYPES.SET_DATE_TIME, payload, requestOptions);
+    this.log(
+      `Clock set to ${dateTime.year}-${dateTime.month}-${dateTime.day} ${dateTime.hour}:${dateTime.minute}:${dateTime.second} (${timeZone})`,
+    );
+
+    return dateTime;
+  }
+
+  /**
+   * Compare the device clock with the host clock and correct it if it
+   * drifted more than the configured limit
+   * @returns Detected drift in minutes and whether the clock was set
+   */
+  public async syncClockIfDrifted(
+    options: CommandRequestOptions & {
+      maxDrift?: number;
+      timeZone?: string;
+    } = {},
+  ): Promise<{ drift: number; synced: boolean }> {
+    const {
+      maxDrift = this.options.maxClockDrift,
+      timeZone = this.options.timeZone,
+      ...requestOptions
+    } = options;
+
+    const info = await this.getRuntimeInfo(requestOptions);
+
+    const now = new Date();
+    const host = this.protocol.toDeviceDateTime(now, timeZone);
+    const minutesPerDay = 24 * 60;
+    const difference = Math.abs(
+      info.time.hour * 60 + info.time.minute - (host.hour * 60 + host.minute),
+    );
+    // The device only reports the time of day, so wrap around midnight
+    const drift = Math.min(difference, minutesPerDay - difference);
+
+    if (drift <= maxDrift) {
+      return { drift, synced: false };
+    }
+
+    this.log(`Device clock is off by ${drift} minutes, correcting it`);
+    await this.syncClock(now, { ...requestOptions, timeZone });
+    return { drift, synced: true };
+  }
+
+  /**
+   * Correct the device clock after (re)connecting if enabled
+   * @private
+   */
+  protected _autoSyncClock(): void {
+    if (!this.options.autoSyncClock) return;
+
+    this.syncClockIfDrifted().catch((error) => {
+      this.log(
+        `Clock synchronisation failed: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    });
+  }
+
+  /**
+   * Reboot the device
+   */
+  public async reboot(): Promise<void> {
+    this._assertDestructiveCommandsAllowed("reboot");
+
+    await this._send(COMMAND_TYPES.REBOOT, [0x01]);
+  }
+
+  /**
+   * Reset the device to factory settings
+   * @param options Must contain `confirm: true`
+   */
+  public async factoryReset(options: { confirm: boolean }): Promise<void> {
+    this._assertDestructiveCommandsAllowed("factory reset");
+    if (options?.confirm !== true) {
+      throw new Error("Factory reset requires { confirm: true }");
+    }
+
+    await this._send(COMMAND_TYPES.FACTORY_RESET, [0x01]);
+  }
+
+  /**
+   * Change the device's region
+   * @param region Region to switch to
+   */
+  public async setRegion(region: DeviceRegion): Promise<void> {
+    this._assertDestructiveCommandsAllowed("region change");
+
+    const payload = this.protocol.createRegionPayload(region);
+
+    await this._send(COMMAND_TYPES.SET_REGION, payload);
+  }
+
+  /**
+   * Enable or disable destructive commands (reboot, factory reset, region)
+   * @param enable Whether to allow destructive commands
+   */
+  public setAllowDestructiveCommands(enable: boolean): void {
+    this.options.allowDestructiveCommands = enable;
+  }
+
+  /**
+   * Refuse a destructive command unless the policy allows it
+   * @param command Human readable command name
+   * @private
+   */
+  private _assertDestructiveCommandsAllowed(command: string): void {
+    if (!this.options.allowDestructiveCommands) {
+      throw new Error(
+        `Refusing to send ${command}: destructive commands are disabled. Enable them with the allowDestructiveCommands option.`,
+      );
+    }
+  }
+
+  /**
+   * Set WiFi configuration
+   * @param ssid WiFi SSID
+   * @param password WiFi password
+   * @returns Command response
+   */
+  public async setWifiConfig(ssid: string, password: string): Promise<void> {
+    if (!ssid || !password) {
+      throw new Error("SSID and password are required");
+    }
+
+    // Create payload using protocol
+    const configBytes = this.protocol.createWifiConfigPayload(ssid, password);
+
+    await this._send(COMMAND_TYPES.SET_WIFI, configBytes);
+  }
+
+  /**
+   * Set MQTT configuration
+   * @param config MQTT configuration
+   * @returns Command response
+   */
+  public async setMqttConfig(config: MQTTConfig): Promise<void> {
+    if (!config.host || !config.port) {
+      throw new Error("Host and port are required");
+    }
+
+    // Create payload using protocol
+    const configBytes = this.protocol.createMqttConfigPayload(config);
+
+    await this._send(COMMAND_TYPES.SET_MQTT, configBytes);
+  }
+
+  /**
+   * Reset MQTT configuration
+   * @returns Command response
+   */
+  public async resetMqttConfig(): Promise<void> {
+    await this._send(COMMAND_TYPES.RESET_MQTT, null);
+  }
+
+  /**
+   * Periodically request device data. Polling pauses while disconnected and
+   * resumes after reconnecting; a tick is skipped while the previous request
+   * of the same kind is still pending.
+   * @param options Interval per data kind in milliseconds; omitted kinds are
+   * not polled
+   */
+  public startPolling(options: PollingOptions): void {
+    const requests = {
+      runtimeInfo: {
+        command: COMMAND_TYPES.RUNTIME_INFO,
+        run: () => this.getRuntimeInfo(),
+      },
+      cellInfo: {
+        command: COMMAND_TYPES.CELL_INFO,
+        run: () => this.getCellInfo(),
+      },
+      deviceInfo: {
+        command: COMMAND_TYPES.DEVICE_INFO,
+        run: () => this.getDeviceInfo(),
+      },
+    };
+
+    const tasks = (Object.keys(requests) as Array<keyof PollingOptions>)
+      .filter((name) => options[name] !== undefined)
+      .map((name) => ({
+        name,
+        interval: options[name]!,
+        run: requests[name].run,
+        isBusy: () => this.commandQueue.isInFlight(requests[name].command),
+      }));
+
+    const poller = new PollingScheduler(tasks, {
+      isTimeout: (error) =>
+        error instanceof Error &&
+        error.message === CommandQueue.TIMEOUT_MESSAGE,
+      logger: this.options.logger,
+    });
+
+    this.stopPolling();
+    this.poller = poller;
+    if (this.isConnected()) {
+      poller.resume();
+    }
+  }
+
+  /**
+   * Stop polling started with startPolling()
+   */
+  public stopPolling(): void {
+    this.poller?.pause();
+    this.poller = null;
+  }
+
+  /**
+   * Check if the device is connected
+   * @returns Connection status
+   */
+  public isConnected(): boolean {
+    return this.opened;
+  }
+
+  /**
+   * Get the transport the client talks over
+   * @returns Transport or null
+   */
+  public getTransport(): HMTransport | null {
+    return this.transport;
+  }
+
+  /**
+   * Send raw bytes to the device
+   * @param bytes Raw bytes to send as Uint8Array
+   * @returns Promise that resolves when command is sent
+   */
+  public async sendRawBytes(bytes: Uint8Array): Promise<void> {
+    if (!this.isConnected() || !this.transport) {
+      throw new Error("Not connected to device");
+    }
+
+    try {
+      this.log(
+        `Sending raw command: ${Array.from(bytes)
+          .map((b) => "0x" + b.toString(16).padStart(2, "0"))
+          .join(" ")}`,
+      );
+
+      // Send the raw command
+      await this.transport.write(bytes);
+
+      this.log(`Raw command sent successfully`);
+    } catch (error) {
+      this._triggerEvent("error", error);
+      throw error;
+    }
+  }
+}
+
+export { HMDeviceClient };
+export type { HMDeviceClientEventCallbackArgs };
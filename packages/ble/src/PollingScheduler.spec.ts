@@ -0,0 +1,110 @@
+import { PollingScheduler } from "./PollingScheduler.js";
+
+describe("PollingScheduler", () => {
+  const wait = (ms: number) =>
+    new Promise((resolve) => setTimeout(resolve, ms));
+  let scheduler: PollingScheduler;
+
+  afterEach(() => {
+    scheduler?.pause();
+  });
+
+  it("should run immediately on resume and then every interval", async () => {
+    let runs = 0;
+    scheduler = new PollingScheduler([
+      { name: "runtimeInfo", interval: 20, run: async () => runs++ },
+    ]);
+
+    scheduler.resume();
+    expect(runs).toBe(1);
+    await wait(50);
+    expect(runs).toBeGreaterThanOrEqual(2);
+  });
+
+  it("should stop ticking while paused", async () => {
+    let runs = 0;
+    scheduler = new PollingScheduler([
+      { name: "runtimeInfo", interval: 10, run: async () => runs++ },
+    ]);
+
+    scheduler.resume();
+    scheduler.pause();
+    await wait(30);
+    expect(runs).toBe(1);
+    expect(scheduler.isActive).toBe(false);
+  });
+
+  it("should skip ticks while the previous run is pending", async () => {
+    let runs = 0;
+    let release: () => void = () => {};
+    scheduler = new PollingScheduler([
+      {
+        name: "cellInfo",
+        interval: 10,
+        run: () => {
+          runs++;
+          return new Promise<void>((resolve) => (release = resolve));
+        },
+      },
+    ]);
+
+    scheduler.resume();
+    await wait(40);
+    expect(runs).toBe(1);
+    release();
+  });
+
+  it("should skip ticks while the task reports it is busy", async () => {
+    let runs = 0;
+    scheduler = new PollingScheduler([
+      {
+        name: "deviceInfo",
+        interval: 10,
+        run: async () => runs++,
+        isBusy: () => true,
+      },
+    ]);
+
+    scheduler.resume();
+    await wait(30);
+    expect(runs).toBe(0);
+  });
+
+  it("should slow down on timeouts and recover after a success", async () => {
+    let fail = true;
+    scheduler = new PollingScheduler(
+      [
+        {
+          name: "runtimeInfo",
+          interval: 10,
+          run: async () => {
+            if (fail) throw new Error("Command timed out");
+          },
+        },
+      ],
+      {
+        isTimeout: (error) => (error as Error).message === "Command timed out",
+      },
+    );
+
+    scheduler.resume();
+    await wait(0);
+    expect(scheduler.getInterval("runtimeInfo")).toBe(20);
+
+    await wait(200);
+    expect(scheduler.getInterval("runtimeInfo")).toBe(80);
+
+    fail = false;
+    await wait(100);
+    expect(scheduler.getInterval("runtimeInfo")).toBe(10);
+  });
+
+  it("should reject invalid intervals", () => {
+    expect(
+      () =>
+        new PollingScheduler([
+          { name: "runtimeInfo", interval: 0, run: async () => {} },
+        ]),
+    ).toThrow("Polling interval for runtimeInfo must be a positive number");
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * PollingScheduler - Runs periodic tasks while a connection is active
+ *
+ * Each task ticks at a fixed rate. A tick is skipped while the task's previous
+ * run is still busy, so slow devices do not accumulate requests. When a task
+ * keeps timing out its interval is doubled, up to MAX_BACKOFF_FACTOR times the
+ * configured interval, and it returns to the configured interval after the
+ * next success.
+ */
+
+interface PollingTask {
+  /** Name used in log messages */
+  name: string;
+  /** Interval between runs in milliseconds */
+  interval: number;
+  /** Work to perform on every tick */
+  run: () => Promise<unknown>;
+  /** Returns true when a tick should be skipped, e.g. a request is in flight */
+  isBusy?: () => boolean;
+}
+
+interface PollingSchedulerOptions {
+  /** Decides whether a failed run should slow the task down */
+  isTimeout?: (error: unknown) => boolean;
+  logger?: (message: string, ...args: unknown[]) => void;
+}
+
+interface TaskState {
+  task: PollingTask;
+  interval: number;
+  running: boolean;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+class PollingScheduler {
+  // Upper bound for the adapted interval relative to the configured one
+  static readonly MAX_BACKOFF_FACTOR = 8;
+
+  private tasks: TaskState[];
+  private active: boolean = false;
+  private isTimeout: (error: unknown) => boolean;
+  private logger?: (message: string, ...args: unknown[]) => void;
+
+  /**
+   * Constructor
+   * @param tasks Tasks to run
+   * @param options Timeout detection and logger
+   */
+  constructor(tasks: PollingTask[], options: PollingSchedulerOptions = {}) {
+    for (const task of tasks) {
+      if (!Number.isFinite(task.interval) || task.interval <= 0) {
+        throw new Error(
+          `Polling interval for ${task.name} must be a positive number`,
+        );
+      }
+    }
+
+    this.tasks = tasks.map((task) => ({
+      task,
+      interval: task.interval,
+      running: false,
+      timer: null,
+    }));
+    this.isTimeout = options.isTimeout ?? (() => false);
+    this.logger = options.logger;
+  }
+
+  /**
+   * Whether the tasks are currently ticking
+   */
+  public get isActive(): boolean {
+    return this.active;
+  }
+
+  /**
+   * Current interval of a task, including any timeout backoff
+   * @param name Task name
+   */
+  public getInterval(name: string): number | undefined {
+    return this.tasks.find((state) => state.task.name === name)?.interval;
+  }
+
+  /**
+   * Run every task immediately and keep ticking until paused
+   */
+  public resume(): void {
+    if (this.active) return;
+    this.active = true;
+    for (const state of this.tasks) {
+      this.tick(state);
+    }
+  }
+
+  /**
+   * Stop ticking. Runs in progress are allowed to finish.
+   */
+  public pause(): void {
+    if (!this.active) return;
+    this.active = false;
+    for (const state of this.tasks) {
+      if (state.timer) {
+        clearTimeout(state.timer);
+        state.timer = null;
+      }
+    }
+  }
+
+  /**
+   * Run a task unless it is busy and schedule its next tick
+   * @private
+   */
+  private tick(state: TaskState): void {
+    if (!this.active) return;
+
+    state.timer = setTimeout(() => this.tick(state), state.interval);
+
+    if (state.running || state.task.isBusy?.()) {
+      this.log(`Skipping ${state.task.name} poll, previous request pending`);
+      return;
+    }
+
+    void this.run(state);
+  }
+
+  /**
+   * Run a task and adapt its interval to the outcome
+   * @private
+   */
+  private async run(state: TaskState): Promise<void> {
+    const previousInterval = state.interval;
+    state.running = true;
+    try {
+      await state.task.run();
+      state.interval = state.task.interval;
+    } catch (error) {
+      if (this.isTimeout(error)) {
+        const maxInterval =
+          state.task.interval * PollingScheduler.MAX_BACKOFF_FACTOR;
+        state.interval = Math.min(state.interval * 2, maxInterval);
+        this.log(
+          `${state.task.name} poll timed out, next poll in ${state.interval}ms`,
+        );
+      } else {
+        this.log(
+          `${state.task.name} poll failed: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+    } finally {
+      state.running = false;
+    }
+
+    // Apply the adapted interval right away
+    if (this.active && state.timer && state.interval !== previousInterval) {
+      clearTimeout(state.timer);
+      state.timer = setTimeout(() => this.tick(state), state.interval);
+    }
+  }
+
+  /**
+   * Log a message using the configured logger
+   * @private
+   */
+  private log(message: string, ...args: unknown[]): void {
+    if (this.logger) {
+      this.logger(message, ...args);
+    }
+  }
+}
+
+export { PollingScheduler };
+export type { PollingTask, PollingSchedulerOptions };
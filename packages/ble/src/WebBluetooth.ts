@@ -0,0 +1,59 @@
+/**
+ * Web Bluetooth loader - Finds the Web Bluetooth implementation to use in
+ * browsers and in Node.js, where the optional `webbluetooth` peer dependency
+ * provides it.
+ */
+
+// Web Bluetooth implementation auto-loaded in Node.js, shared by all users
+let nodeBluetooth: Bluetooth | null = null;
+
+/**
+ * Resolve a Web Bluetooth implementation. Prefers an explicit override, then
+ * `navigator.bluetooth`, then auto-loads the optional `webbluetooth` peer
+ * dependency in Node.js.
+ * @param override Bluetooth instance passed by the caller
+ */
+async function resolveBluetooth(override?: Bluetooth): Promise<Bluetooth> {
+  if (override) return override;
+  if (typeof navigator !== "undefined" && navigator.bluetooth) {
+    return navigator.bluetooth;
+  }
+  if (nodeBluetooth) return nodeBluetooth;
+  const isNode =
+    typeof process !== "undefined" && process.versions?.node != null;
+  if (isNode) {
+    try {
+      const moduleName = "webbluetooth";
+      const mod = (await import(
+        /* webpackIgnore: true */ /* @vite-ignore */ moduleName
+      )) as { Bluetooth: new () => Bluetooth };
+      nodeBluetooth = new mod.Bluetooth();
+      return nodeBluetooth;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      const code =
+        err instanceof Error && "code" in err
+          ? (err as { code?: string }).code
+          : undefined;
+      const isModuleNotFound =
+        code === "ERR_MODULE_NOT_FOUND" ||
+        code === "MODULE_NOT_FOUND" ||
+        /Cannot find (module|package)/i.test(message);
+      if (isModuleNotFound) {
+        throw new Error(
+          "The `webbluetooth` package is not installed. Run `npm install webbluetooth`, or pass a `Bluetooth` instance via the `bluetooth` option.",
+          { cause: err },
+        );
+      }
+      throw new Error(
+        `Failed to initialize the \`webbluetooth\` Bluetooth implementation: ${message}`,
+        { cause: err },
+      );
+    }
+  }
+  throw new Error(
+    "Web Bluetooth API is not supported in this browser. Pass a `Bluetooth` instance via the `bluetooth` option.",
+  );
+}
+
+export { resolveBluetooth };
@@ -7,6 +7,41 @@
 
 // Export the BLE manager
 export { BLEDeviceManager } from "./BLEDeviceManager.js";
+export { HMDeviceClient } from "./HMDeviceClient.js";
+export type { HMDeviceClientEventCallbackArgs } from "./HMDeviceClient.js";
+export { GattTransport } from "./GattTransport.js";
+export type { GattTransportOptions } from "./GattTransport.js";
+export { BLEFleetManager } from "./BLEFleetManager.js";
+export { AdvertisementScanner } from "./AdvertisementScanner.js";
+export type {
+  AdvertisementScannerOptions,
+  Advertisement,
+} from "./AdvertisementScanner.js";
+export {
+  MemoryDeviceStore,
+  LocalStorageDeviceStore,
+  FileDeviceStore,
+} from "./DeviceStore.js";
 
 // Export BLE-specific types
-export type { BLEManagerOptions, EventCallback } from "./types.js";
+export type {
+  BLEManagerOptions,
+  HMTransport,
+  HMDeviceClientOptions,
+  CommandRequestOptions,
+  EventCallback,
+  RetryPolicy,
+  RetryEvent,
+  DataFormat,
+  ReconnectingEvent,
+  ReconnectFailedEvent,
+  ConnectionState,
+  StateChangeEvent,
+  PollingOptions,
+  BLEFleetManagerOptions,
+  FleetDeviceOptions,
+  FleetRuntimeSummary,
+  KnownDevice,
+  DeviceStore,
+  ConnectToKnownOptions,
+} from "./types.js";
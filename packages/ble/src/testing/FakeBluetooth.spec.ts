@@ -0,0 +1,99 @@
+import { COMMAND_TYPES } from "@tomquist/hmjs-protocol";
+import { FakeBluetooth } from "./FakeBluetooth.js";
+
+describe("FakeBluetooth", () => {
+  it("should pick matching devices and remember the authorisation", async () => {
+    const bluetooth = new FakeBluetooth();
+    bluetooth.addDevice({ id: "other", name: "Other" });
+    bluetooth.addDevice({ id: "hm", name: "HM_B2500" });
+    bluetooth.addDevice({ id: "known", authorized: true });
+
+    const device = await bluetooth.requestDevice({
+      filters: [{ namePrefix: "HM_" }],
+    });
+    await expect(
+      bluetooth.requestDevice({ filters: [{ namePrefix: "XY_" }] }),
+    ).rejects.toThrow("User cancelled");
+
+    expect(device.id).toBe("hm");
+    expect(
+      (await bluetooth.getDevices()).map((authorised) => authorised.id),
+    ).toEqual(["hm", "known"]);
+  });
+
+  it("should record writes and notify scripted responses", async () => {
+    const bluetooth = new FakeBluetooth();
+    const device = bluetooth
+      .addDevice()
+      .respond(COMMAND_TYPES.GET_TIMERS, (payload) => [...payload, 0x01]);
+    const server = await device.gatt.connect();
+    const service = await server.getPrimaryService(
+      "0000ff00-0000-1000-8000-00805f9b34fb",
+    );
+    const command = await service.getCharacteristic(
+      "0000ff01-0000-1000-8000-00805f9b34fb",
+    );
+    const status = await service.getCharacteristic(
+      "0000ff02-0000-1000-8000-00805f9b34fb",
+    );
+    await status.startNotifications();
+    const notified = new Promise<number[]>((resolve) =>
+      status.addEventListener("characteristicvaluechanged", () =>
+        resolve(Array.from(new Uint8Array(status.value!.buffer))),
+      ),
+    );
+
+    await command.writeValueWithoutResponse(
+      new Uint8Array([0x73, 0x06, 0x23, 0x13, 0x00, 0x45]),
+    );
+
+    expect(device.writes).toEqual([
+      expect.objectContaining({
+        commandType: COMMAND_TYPES.GET_TIMERS,
+        payload: new Uint8Array([0x00]),
+      }),
+    ]);
+    expect(await notified).toEqual([0x73, 0x07, 0x23, 0x13, 0x00, 0x01, 0x45]);
+  });
+
+  it("should list the service and its characteristics", async () => {
+    const bluetooth = new FakeBluetooth();
+    const device = bluetooth.addDevice({ authorized: true });
+    const server = await device.asDevice().gatt!.connect();
+
+    const [service] = await server.getPrimaryServices();
+    const characteristics = await service.getCharacteristics();
+    await device.forget();
+
+    expect(service.device).toBe(device);
+    expect(
+      characteristics.map(({ uuid, properties }) => [
+        uuid,
+        properties.write,
+        properties.notify,
+      ]),
+    ).toEqual([
+      ["0000ff01-0000-1000-8000-00805f9b34fb", true, false],
+      ["0000ff02-0000-1000-8000-00805f9b34fb", false, true],
+    ]);
+    expect(await bluetooth.getDevices()).toEqual([]);
+  });
+
+  it("should fail GATT operations once disconnected", async () => {
+    const bluetooth = new FakeBluetooth();
+    const device = bluetooth.addDevice();
+    const disconnected = jest.fn();
+    device.addEventListener("gattserverdisconnected", disconnected);
+
+    device.setConnectFailure();
+    await expect(device.gatt.connect()).rejects.toThrow("Connection failed");
+    device.setConnectFailure(null);
+    await device.gatt.connect();
+    device.disconnect();
+
+    expect(disconnected).toHaveBeenCalledTimes(1);
+    await expect(
+      device.gatt.getPrimaryService("0000ff00-0000-1000-8000-00805f9b34fb"),
+    ).rejects.toThrow("GATT Server is disconnected");
+  });
+});
@@ -0,0 +1,495 @@
+/**
+ * FakeBluetooth - In-memory Web Bluetooth implementation for testing code
+ * that talks to HM devices, without a Bluetooth adapter.
+ *
+ * Every FakeBluetoothDevice serves the FF00 service with the FF01 command and
+ * FF02 status characteristics. Frames written to the command characteristic
+ * are recorded and answered with scripted responses on the status
+ * characteristic. Disconnects, connection failures and write failures can be
+ * injected at any time. Event handler attributes such as
+ * `ongattserverdisconnected` are accepted but not called; use
+ * `addEventListener()`.
+ */
+import { HMDeviceProtocol } from "@tomquist/hmjs-protocol";
+import { GattTransport } from "../GattTransport.js";
+
+/**
+ * Produces the payload of the response to a command, or null for no response
+ */
+type ResponseHandler = (
+  payload: Uint8Array,
+) => Uint8Array | number[] | null | void;
+
+interface WrittenCommand {
+  /** Command byte of the frame */
+  commandType: number;
+  /** Bytes between the command byte and the checksum */
+  payload: Uint8Array;
+  /** The frame as written */
+  bytes: Uint8Array;
+}
+
+interface FakeBluetoothDeviceOptions {
+  /** Device ID (default: generated) */
+  id?: string;
+  /** Advertised name; null for an unnamed device (default: "HM_FAKE") */
+  name?: string | null;
+  /** Returned by getDevices() without being picked first (default: false) */
+  authorized?: boolean;
+  /** Delay before scripted responses are notified in milliseconds (default: 0) */
+  responseDelay?: number;
+}
+
+let nextDeviceId = 1;
+
+const toBytes = (value: BufferSource | number[]): Uint8Array =>
+  Array.isArray(value)
+    ? new Uint8Array(value)
+    : ArrayBuffer.isView(value)
+      ? new Uint8Array(value.buffer, value.byteOffset, value.byteLength).slice()
+      : new Uint8Array(value).slice();
+
+const sameUuid = (a: BluetoothServiceUUID, b: string) =>
+  String(a).toLowerCase() === b;
+
+const notFound = (message: string): Error => {
+  const error = new Error(message);
+  error.name = "NotFoundError";
+  return error;
+};
+
+const characteristicProperties = (
+  properties: Partial<BluetoothCharacteristicProperties>,
+): BluetoothCharacteristicProperties => ({
+  broadcast: false,
+  read: false,
+  writeWithoutResponse: false,
+  write: false,
+  notify: false,
+  indicate: false,
+  authenticatedSignedWrites: false,
+  reliableWrite: false,
+  writableAuxiliaries: false,
+  ...properties,
+});
+
+class FakeCharacteristic
+  extends EventTarget
+  implements BluetoothRemoteGATTCharacteristic
+{
+  public value: DataView | undefined = undefined;
+  public notifying = false;
+  public oncharacteristicvaluechanged = () => {};
+
+  constructor(
+    public readonly uuid: string,
+    public readonly properties: BluetoothCharacteristicProperties,
+    public readonly service: FakeService,
+  ) {
+    super();
+  }
+
+  private get device(): FakeBluetoothDevice {
+    return this.service.device;
+  }
+
+  public async getDescriptor(
+    descriptor: BluetoothDescriptorUUID,
+  ): Promise<BluetoothRemoteGATTDescriptor> {
+    throw notFound(`No descriptor matching UUID ${String(descriptor)} found`);
+  }
+
+  public async getDescriptors(): Promise<BluetoothRemoteGATTDescriptor[]> {
+    return [];
+  }
+
+  public async startNotifications(): Promise<FakeCharacteristic> {
+    this.device._assertConnected();
+    this.notifying = true;
+    return this;
+  }
+
+  public async stopNotifications(): Promise<FakeCharacteristic> {
+    this.notifying = false;
+    return this;
+  }
+
+  public async readValue(): Promise<DataView> {
+    this.device._assertConnected();
+    return this.value ?? new DataView(new ArrayBuffer(0));
+  }
+
+  public async writeValueWithoutResponse(value: BufferSource): Promise<void> {
+    this.device._handleWrite(this.uuid, toBytes(value));
+  }
+
+  public async writeValueWithResponse(value: BufferSource): Promise<void> {
+    this.device._handleWrite(this.uuid, toBytes(value));
+  }
+
+  public async writeValue(value: BufferSource): Promise<void> {
+    this.device._handleWrite(this.uuid, toBytes(value));
+  }
+}
+
+class FakeService extends EventTarget implements BluetoothRemoteGATTService {
+  public readonly uuid = GattTransport.SERVICE_UUID;
+  public readonly isPrimary = true;
+  public oncharacteristicvaluechanged = () => {};
+  public onserviceadded = () => {};
+  public onservicechanged = () => {};
+  public onserviceremoved = () => {};
+
+  constructor(public readonly device: FakeBluetoothDevice) {
+    super();
+  }
+
+  public async getCharacteristic(
+    uuid: BluetoothCharacteristicUUID,
+  ): Promise<FakeCharacteristic> {
+    const [characteristic] = await this.getCharacteristics(uuid);
+    if (!characteristic) {
+      throw notFound(`No characteristic matching UUID ${String(uuid)} found`);
+    }
+    return characteristic;
+  }
+
+  public async getCharacteristics(
+    uuid?: BluetoothCharacteristicUUID,
+  ): Promise<FakeCharacteristic[]> {
+    this.device._assertConnected();
+    return [
+      this.device.commandCharacteristic,
+      this.device.statusCharacteristic,
+    ].filter(
+      (candidate) => uuid === undefined || sameUuid(uuid, candidate.uuid),
+    );
+  }
+
+  public async getIncludedService(
+    service: BluetoothServiceUUID,
+  ): Promise<BluetoothRemoteGATTService> {
+    throw notFound(`No service matching UUID ${String(service)} found`);
+  }
+
+  public async getIncludedServices(): Promise<BluetoothRemoteGATTService[]> {
+    return [];
+  }
+}
+
+class FakeGattServer implements BluetoothRemoteGATTServer {
+  public connected = false;
+
+  constructor(public readonly device: FakeBluetoothDevice) {}
+
+  public async connect(): Promise<FakeGattServer> {
+    return this.device._handleConnect();
+  }
+
+  public disconnect(): void {
+    this.device._handleDisconnect();
+  }
+
+  public async getPrimaryService(
+    service: BluetoothServiceUUID,
+  ): Promise<FakeService> {
+    const [primary] = await this.getPrimaryServices(service);
+    if (!primary) {
+      throw notFound(`No service matching UUID ${String(service)} found`);
+    }
+    return primary;
+  }
+
+  public async getPrimaryServices(
+    service?: BluetoothServiceUUID,
+  ): Promise<FakeService[]> {
+    this.device._assertConnected();
+    return [this.device.service].filter(
+      (candidate) => service === undefined || sameUuid(service, candidate.uuid),
+    );
+  }
+}
+
+class FakeBluetoothDevice extends EventTarget implements BluetoothDevice {
+  public readonly id: string;
+  public readonly name: string | undefined;
+  public readonly gatt: FakeGattServer;
+  public readonly service: FakeService;
+  public readonly commandCharacteristic: FakeCharacteristic;
+  public readonly statusCharacteristic: FakeCharacteristic;
+  public authorized: boolean;
+  public responseDelay: number;
+
+  /** Frames written to the command characteristic, oldest first */
+  public readonly writes: WrittenCommand[] = [];
+  /** Number of GATT connection attempts */
+  public connectAttempts = 0;
+  public watchingAdvertisements = false;
+  public onadvertisementreceived = () => {};
+  public ongattserverdisconnected = () => {};
+  public oncharacteristicvaluechanged = () => {};
+  public onserviceadded = () => {};
+  public onservicechanged = () => {};
+  public onserviceremoved = () => {};
+
+  private responses = new Map<number, ResponseHandler>();
+  private connectFailure: Error | null = null;
+  private writeFailure: Error | null = null;
+  private protocol = new HMDeviceProtocol({ logger: () => {} });
+
+  constructor(options: FakeBluetoothDeviceOptions = {}) {
+    super();
+    this.id = options.id ?? `fake-device-${nextDeviceId++}`;
+    this.name =
+      options.name === undefined ? "HM_FAKE" : (options.name ?? undefined);
+    this.authorized = options.authorized ?? false;
+    this.responseDelay = options.responseDelay ?? 0;
+    this.gatt = new FakeGattServer(this);
+    this.service = new FakeService(this);
+    this.commandCharacteristic = new FakeCharacteristic(
+      GattTransport.COMMAND_CHARACTERISTIC_UUID,
+      characteristicProperties({ write: true, writeWithoutResponse: true }),
+      this.service,
+    );
+    this.statusCharacteristic = new FakeCharacteristic(
+      GattTransport.STATUS_CHARACTERISTIC_UUID,
+      characteristicProperties({ read: true, notify: true }),
+      this.service,
+    );
+  }
+
+  /**
+   * The fake typed as a Web Bluetooth device, e.g. for connect()
+   */
+  public asDevice(): BluetoothDevice {
+    return this;
+  }
+
+  /**
+   * Answer a command with a response frame of the same command type
+   * @param commandType Command to answer
+   * @param response Response payload, or a function computing it from the
+   * request payload
+   * @returns This instance for chaining
+   */
+  public respond(
+    commandType: number,
+    response: Uint8Array | number[] | ResponseHandler,
+  ): FakeBluetoothDevice {
+    this.responses.set(
+      commandType,
+      typeof response === "function" ? response : () => response,
+    );
+    return this;
+  }
+
+  /**
+   * Stop answering a command, e.g. to make requests time out
+   * @param commandType Command to stop answering
+   * @returns This instance for chaining
+   */
+  public clearResponse(commandType: number): FakeBluetoothDevice {
+    this.responses.delete(commandType);
+    return this;
+  }
+
+  /**
+   * Send raw bytes as a status notification, e.g. partial frames. Ignored
+   * while disconnected or before notifications were started.
+   * @param bytes Notification value
+   */
+  public notify(bytes: Uint8Array | number[]): void {
+    const characteristic = this.statusCharacteristic;
+    if (!this.gatt.connected || !characteristic.notifying) return;
+
+    const value = toBytes(bytes);
+    characteristic.value = new DataView(value.buffer);
+    characteristic.dispatchEvent(new Event("characteristicvaluechanged"));
+  }
+
+  /**
+   * Drop the connection as if the device went out of range
+   */
+  public disconnect(): void {
+    this._handleDisconnect();
+  }
+
+  /**
+   * Make GATT connection attempts fail
+   * @param error Error to fail with, or null to let connections succeed
+   */
+  public setConnectFailure(
+    error: Error | null = new Error("Connection failed"),
+  ): void {
+    this.connectFailure = error;
+  }
+
+  /**
+   * Make writes to the command characteristic fail
+   * @param error Error to fail with, or null to let writes succeed
+   */
+  public setWriteFailure(
+    error: Error | null = new Error("GATT operation failed"),
+  ): void {
+    this.writeFailure = error;
+  }
+
+  /**
+   * Emit an advertisement, as watched by `watchAdvertisements()`
+   */
+  public advertise(): void {
+    this.dispatchEvent(new Event("advertisementreceived"));
+  }
+
+  public async watchAdvertisements(
+    options: WatchAdvertisementsOptions = {},
+  ): Promise<void> {
+    options.signal?.throwIfAborted();
+    this.watchingAdvertisements = true;
+    options.signal?.addEventListener(
+      "abort",
+      () => (this.watchingAdvertisements = false),
+      { once: true },
+    );
+  }
+
+  public async forget(): Promise<void> {
+    this.authorized = false;
+  }
+
+  /** @internal */
+  public async _handleConnect(): Promise<FakeGattServer> {
+    this.connectAttempts++;
+    await Promise.resolve();
+    if (this.connectFailure) {
+      throw this.connectFailure;
+    }
+    this.gatt.connected = true;
+    return this.gatt;
+  }
+
+  /** @internal */
+  public _handleDisconnect(): void {
+    if (!this.gatt.connected) return;
+
+    this.gatt.connected = false;
+    this.statusCharacteristic.notifying = false;
+    this.dispatchEvent(new Event("gattserverdisconnected"));
+  }
+
+  /** @internal */
+  public _assertConnected(): void {
+    if (!this.gatt.connected) {
+      throw new Error("GATT Server is disconnected");
+    }
+  }
+
+  /** @internal */
+  public _handleWrite(uuid: string, bytes: Uint8Array): void {
+    this._assertConnected();
+    if (this.writeFailure) {
+      throw this.writeFailure;
+    }
+    if (uuid !== GattTransport.COMMAND_CHARACTERISTIC_UUID) {
+      throw new Error(`Characteristic ${uuid} is not writable`);
+    }
+
+    const commandType = bytes[3];
+    const payload = bytes.slice(4, Math.max(4, bytes.length - 1));
+    this.writes.push({ commandType, payload, bytes });
+
+    const handler = this.responses.get(commandType);
+    const response = handler?.(payload);
+    if (!response) return;
+
+    const frame = this.protocol.createCommandMessage(commandType, response);
+    setTimeout(() => this.notify(frame), this.responseDelay);
+  }
+}
+
+class FakeBluetooth extends EventTarget implements Bluetooth {
+  private devices: FakeBluetoothDevice[] = [];
+  public onavailabilitychanged = () => {};
+  public onadvertisementreceived = () => {};
+  public ongattserverdisconnected = () => {};
+  public oncharacteristicvaluechanged = () => {};
+  public onserviceadded = () => {};
+  public onservicechanged = () => {};
+  public onserviceremoved = () => {};
+
+  /**
+   * Add a device that can be picked with requestDevice()
+   * @param options Device options
+   * @returns The new device
+   */
+  public addDevice(
+    options: FakeBluetoothDeviceOptions = {},
+  ): FakeBluetoothDevice {
+    const device = new FakeBluetoothDevice(options);
+    this.devices.push(device);
+    return device;
+  }
+
+  /**
+   * Remove a device, as if it was switched off
+   * @param id ID of the device
+   */
+  public removeDevice(id: string): void {
+    this.devices = this.devices.filter((device) => device.id !== id);
+  }
+
+  /**
+   * The fake typed as the Web Bluetooth API, e.g. for the `bluetooth` option
+   */
+  public asBluetooth(): Bluetooth {
+    return this;
+  }
+
+  public async getAvailability(): Promise<boolean> {
+    return true;
+  }
+
+  /**
+   * Pick the first device that matches the filters, like a user choosing it
+   * in the chooser. The device is authorised afterwards.
+   */
+  public async requestDevice(
+    options: RequestDeviceOptions = { acceptAllDevices: true },
+  ): Promise<BluetoothDevice> {
+    const acceptAll = "acceptAllDevices" in options && options.acceptAllDevices;
+    const filters = "filters" in options ? options.filters : [];
+    const device = this.devices.find(
+      (candidate) =>
+        acceptAll ||
+        filters.some(
+          (filter) =>
+            (filter.name === undefined || filter.name === candidate.name) &&
+            (filter.namePrefix === undefined ||
+              !!candidate.name?.startsWith(filter.namePrefix)),
+        ),
+    );
+    if (!device) {
+      throw notFound("User cancelled the requestDevice() chooser.");
+    }
+
+    device.authorized = true;
+    return device;
+  }
+
+  /**
+   * Get the devices the user authorised before
+   */
+  public async getDevices(): Promise<BluetoothDevice[]> {
+    return this.devices.filter((device) => device.authorized);
+  }
+
+  /**
+   * Advertisement scanning is not simulated
+   */
+  public async requestLEScan(): Promise<BluetoothLEScan> {
+    throw new Error("Advertisement scanning is not supported by FakeBluetooth");
+  }
+}
+
+export { FakeBluetooth, FakeBluetoothDevice };
+export type { FakeBluetoothDeviceOptions, ResponseHandler, WrittenCommand };
@@ -0,0 +1,12 @@
+/**
+ * Test helpers for code built on @tomquist/hmjs-ble
+ *
+ * Import from "@tomquist/hmjs-ble/testing" to run BLEDeviceManager against an
+ * in-memory Web Bluetooth implementation.
+ */
+export { FakeBluetooth, FakeBluetoothDevice } from "./FakeBluetooth.js";
+export type {
+  FakeBluetoothDeviceOptions,
+  ResponseHandler,
+  WrittenCommand,
+} from "./FakeBluetooth.js";
@@ -2,12 +2,233 @@ type EventCallback<T extends unknown[] = unknown[]> = (...args: T) => void;
 type NotificationHandler = (response: unknown) => void;
 type NotificationHandlerMap = Record<number, NotificationHandler>;
 
-interface BLEManagerOptions {
+interface CommandRequestOptions {
+  /** Time to wait for the response in milliseconds (default: 5000) */
+  timeout?: number;
+  /** Requests with a higher priority are sent first (default: 0) */
+  priority?: number;
+  /** Cancels the request when aborted */
+  signal?: AbortSignal;
+}
+
+interface RetryPolicy {
+  /** Total number of attempts including the first one (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds (default: 500) */
+  initialDelay?: number;
+  /** Upper bound for the delay between attempts in milliseconds (default: 5000) */
+  maxDelay?: number;
+  /** Factor the delay grows by after every attempt (default: 2) */
+  backoffFactor?: number;
+  /** Random variation of the delay as a fraction of it, 0-1 (default: 0.2) */
+  jitter?: number;
+  /**
+   * Command types that may be resent. Defaults to the read-only queries;
+   * commands that change settings are never resent unless listed here.
+   */
+  retryableCommands?: number[];
+}
+
+interface RetryEvent {
+  /** Command type being resent */
+  commandType: number;
+  /** Number of the upcoming attempt, starting at 2 */
+  attempt: number;
+  /** Total number of attempts allowed */
+  maxAttempts: number;
+  /** Milliseconds until the command is resent */
+  delay: number;
+}
+
+/**
+ * Form in which runtime and cell info events are emitted: `raw` emits
+ * `runtimeInfo`/`cellInfo` as decoded, `normalized` emits
+ * `normalizedRuntimeInfo`/`normalizedCellInfo` with values in plain units
+ * instead, and `both` emits all four
+ */
+type DataFormat = "raw" | "normalized" | "both";
+
+interface PollingOptions {
+  /** Runtime info polling interval in milliseconds; omit to skip */
+  runtimeInfo?: number;
+  /** Cell info polling interval in milliseconds; omit to skip */
+  cellInfo?: number;
+  /** Device info polling interval in milliseconds; omit to skip */
+  deviceInfo?: number;
+}
+
+interface BLEFleetManagerOptions
+  extends Omit<BLEManagerOptions, "reconnectGate"> {
+  /**
+   * Maximum number of devices that may be connecting at the same time
+   * (default: 1). BlueZ adapters fail on parallel connection attempts.
+   */
+  maxConcurrentConnections?: number;
+}
+
+interface FleetDeviceOptions {
+  /** Usable battery capacity in Wh, used to weight the fleet's SOC */
+  capacity?: number;
+}
+
+interface FleetRuntimeSummary {
+  /** Number of devices that reported runtime info */
+  devices: number;
+  /** State of charge weighted by capacity (0-1000, representing 0-100.0%) */
+  soc: number;
+  /** Total remaining capacity (Wh) */
+  remainingCapacity: number;
+  /** Total input power of all devices (W) */
+  inputPower: number;
+  /** Total output power of all devices (W) */
+  outputPower: number;
+}
+
+type ConnectionState =
+  | "idle"
+  | "scanning"
+  | "connecting"
+  | "discovering"
+  | "connected"
+  | "reconnecting"
+  | "disconnecting"
+  | "failed";
+
+interface StateChangeEvent {
+  /** State before the change */
+  previous: ConnectionState;
+  /** State after the change */
+  next: ConnectionState;
+  /** Why the state changed */
+  reason: string;
+}
+
+interface ReconnectingEvent {
+  /** Number of the upcoming attempt, starting at 1 */
+  attempt: number;
+  /** Milliseconds until the attempt is made */
+  delay: number;
+}
+
+interface ReconnectFailedEvent {
+  /** Number of attempts made */
+  attempts: number;
+  /** Error of the last attempt */
+  error: Error;
+}
+
+interface KnownDevice {
+  /** Web Bluetooth device ID */
+  id: string;
+  /** Advertised name, if any */
+  name: string | null;
+  /** Time of the last successful connection (ms since epoch) */
+  lastConnected: number;
+}
+
+/**
+ * Persistence adapter for devices connected to before
+ */
+interface DeviceStore {
+  load(): KnownDevice[] | Promise<KnownDevice[]>;
+  save(devices: KnownDevice[]): void | Promise<void>;
+}
+
+interface ConnectToKnownOptions {
+  /**
+   * Wait until the device advertises before connecting, where the browser
+   * supports `watchAdvertisements` (default: true)
+   */
+  waitForAdvertisement?: boolean;
+  /** Time to wait for an advertisement in milliseconds (default: 30000) */
+  advertisementTimeout?: number;
+}
+
+/**
+ * Byte stream to an HM device, such as a pair of GATT characteristics, a
+ * serial port, a TCP bridge or a simulator
+ */
+interface HMTransport {
+  /** Establish the connection */
+  open(): Promise<void>;
+  /** Close the connection. Close listeners are not notified. */
+  close(): void;
+  /** Write one frame to the device */
+  write(bytes: Uint8Array): Promise<void>;
+  /**
+   * Register a listener for received bytes. A chunk may hold part of a
+   * frame or several frames.
+   * @returns Function that removes the listener
+   */
+  onData(listener: (data: DataView) => void): () => void;
+  /**
+   * Register a listener for connections closed by the device or the link
+   * @returns Function that removes the listener
+   */
+  onClose(listener: () => void): () => void;
+}
+
+interface HMDeviceClientOptions {
+  /** Transport to talk to the device over; can also be passed to open() */
+  transport?: HMTransport;
+  logger?: (message: string, ...args: unknown[]) => void;
+  /**
+   * Reject notifications whose length byte or checksum does not match.
+   * Leave disabled for firmware that sends padded frames.
+   */
+  strictFrameValidation?: boolean;
+  /**
+   * Compare the device clock with the host clock after connecting and
+   * reconnecting, and correct it when it drifted more than `maxClockDrift`.
+   */
+  autoSyncClock?: boolean;
+  /** Maximum tolerated clock drift in minutes (default: 2) */
+  maxClockDrift?: number;
+  /** IANA time zone the device clock runs in (default: host time zone) */
+  timeZone?: string;
+  /**
+   * Allow commands that reboot, reset or reconfigure the device's region.
+   * Disabled by default; these calls are refused until this is enabled.
+   */
+  allowDestructiveCommands?: boolean;
+  /**
+   * Refuse commands that `resolveCapabilities()` reports as unsupported based
+   * on the device's responses, such as more timers than its timer packet
+   * holds. Enabled by default; set to false to send such commands anyway.
+   */
+  enforceCapabilities?: boolean;
+  /**
+   * Resend queries whose response did not arrive in time. Only commands in
+   * `retryableCommands` are resent.
+   */
+  retryPolicy?: RetryPolicy;
+  /** Form of the runtime and cell info events (default: "raw") */
+  dataFormat?: DataFormat;
+}
+
+interface BLEManagerOptions extends Omit<HMDeviceClientOptions, "transport"> {
   autoReconnect?: boolean;
+  /** Delay before the first reconnect attempt in milliseconds (default: 2000) */
   reconnectDelay?: number;
+  /** Upper bound for the delay between reconnect attempts (default: 30000) */
+  maxReconnectDelay?: number;
+  /** Factor the reconnect delay grows by after every attempt (default: 2) */
+  reconnectBackoffFactor?: number;
+  /** Give up after this many reconnect attempts; 0 retries forever (default: 0) */
+  maxReconnectAttempts?: number;
+  /**
+   * Runs every reconnect attempt, e.g. to wait for a free connection slot.
+   * The attempt starts when `attempt` is called. BLEFleetManager sets this to
+   * apply its connection limit to reconnects.
+   */
+  reconnectGate?: (attempt: () => Promise<void>) => Promise<void>;
   deviceNamePrefix?: string;
   acceptAllDevices?: boolean;
-  logger?: (message: string, ...args: unknown[]) => void;
+  /**
+   * Where devices are remembered after connecting. Defaults to localStorage
+   * in browsers and memory elsewhere; use `FileDeviceStore` in Node.js.
+   */
+  deviceStore?: DeviceStore;
   /**
    * Web Bluetooth implementation to use. Defaults to `navigator.bluetooth`
    * in browsers. In Node.js, the optional `webbluetooth` peer dependency is
@@ -21,4 +242,21 @@ export type {
   NotificationHandler,
   NotificationHandlerMap,
   BLEManagerOptions,
+  HMTransport,
+  HMDeviceClientOptions,
+  CommandRequestOptions,
+  RetryPolicy,
+  RetryEvent,
+  DataFormat,
+  ReconnectingEvent,
+  ReconnectFailedEvent,
+  ConnectionState,
+  StateChangeEvent,
+  PollingOptions,
+  BLEFleetManagerOptions,
+  FleetDeviceOptions,
+  FleetRuntimeSummary,
+  KnownDevice,
+  DeviceStore,
+  ConnectToKnownOptions,
 };
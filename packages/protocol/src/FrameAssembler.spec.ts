@@ -0,0 +1,159 @@
+import { FrameAssembler } from "./FrameAssembler.js";
+import { HMDeviceProtocol, COMMANDS } from "./HMDeviceProtocol.js";
+import "fast-text-encoding";
+
+describe("FrameAssembler", () => {
+  let assembler: FrameAssembler;
+  const protocol = new HMDeviceProtocol();
+
+  const runtimeFrame = protocol.createCommandMessage(
+    COMMANDS.RUNTIME_INFO,
+    new Uint8Array(52).map((_, i) => i),
+  );
+  const deviceInfoFrame = protocol.createCommandMessage(
+    COMMANDS.DEVICE_INFO,
+    protocol.stringToBytes("type=HMA-1,id=1"),
+  );
+  const cellInfo = protocol.stringToBytes(
+    "80_25_26_3200_3201_3202_3203_3204_3205_3206_3207_3208_3209_3210_3211_3212_3213",
+  );
+
+  const concat = (...chunks: Uint8Array[]) => {
+    const result = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+      result.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return result;
+  };
+
+  beforeEach(() => {
+    assembler = new FrameAssembler();
+  });
+
+  it("should pass through a complete frame", () => {
+    expect(assembler.push(deviceInfoFrame)).toEqual([deviceInfoFrame]);
+    expect(assembler.pendingBytes).toBe(0);
+  });
+
+  it("should reassemble a frame split across notifications", () => {
+    expect(assembler.push(runtimeFrame.slice(0, 20))).toEqual([]);
+    expect(assembler.push(runtimeFrame.slice(20, 40))).toEqual([]);
+    expect(assembler.push(runtimeFrame.slice(40))).toEqual([runtimeFrame]);
+  });
+
+  it("should accept DataView chunks", () => {
+    const view = new DataView(deviceInfoFrame.buffer);
+    expect(assembler.push(view)).toEqual([deviceInfoFrame]);
+  });
+
+  it("should split concatenated frames", () => {
+    const frames = assembler.push(concat(deviceInfoFrame, runtimeFrame));
+    expect(frames).toEqual([deviceInfoFrame, runtimeFrame]);
+  });
+
+  it("should resync after garbage bytes", () => {
+    const garbage = new Uint8Array([0x00, 0xff, 0x73, 0x01, 0x99]);
+    const frames = assembler.push(concat(garbage, deviceInfoFrame));
+    expect(frames).toEqual([deviceInfoFrame]);
+  });
+
+  it("should resync after a frame with a corrupted length byte", () => {
+    assembler = new FrameAssembler({ verifyChecksum: true });
+    const corrupted = deviceInfoFrame.slice();
+    corrupted[1] = 40;
+    const frames = assembler.push(
+      concat(corrupted, runtimeFrame, runtimeFrame),
+    );
+    expect(frames).toEqual([runtimeFrame, runtimeFrame]);
+    expect(assembler.pendingBytes).toBe(0);
+  });
+
+  it("should pass frames with a mismatched checksum through by default", () => {
+    const corrupted = deviceInfoFrame.slice();
+    corrupted[corrupted.length - 1] ^= 0xff;
+    expect(assembler.push(concat(corrupted, runtimeFrame))).toEqual([
+      corrupted,
+      runtimeFrame,
+    ]);
+  });
+
+  it("should reassemble a cell info payload split across notifications", () => {
+    expect(assembler.push(cellInfo.slice(0, 20))).toEqual([]);
+    expect(assembler.push(cellInfo.slice(20, 40))).toEqual([]);
+    expect(assembler.push(cellInfo.slice(40))).toEqual([cellInfo]);
+    expect(assembler.pendingBytes).toBe(0);
+  });
+
+  it.each([8, 20, HMDeviceProtocol.MAX_CELL_COUNT])(
+    "should keep all cells of a %i-cell payload",
+    (cells) => {
+      const payload = protocol.stringToBytes(
+        ["80", "25", "26", ...Array.from({ length: cells }, () => "3300")].join(
+          "_",
+        ),
+      );
+      const frames = [
+        ...assembler.push(payload.slice(0, 30)),
+        ...assembler.push(concat(payload.slice(30), deviceInfoFrame)),
+      ];
+      expect(frames).toEqual([payload, deviceInfoFrame]);
+      expect(assembler.pendingBytes).toBe(0);
+    },
+  );
+
+  it("should release the longest cell info payload without waiting", () => {
+    const payload = protocol.stringToBytes(
+      [
+        "80",
+        "25",
+        "26",
+        ...Array.from(
+          { length: HMDeviceProtocol.MAX_CELL_COUNT },
+          () => "3300",
+        ),
+      ].join("_"),
+    );
+    expect(assembler.push(payload)).toEqual([payload]);
+  });
+
+  it("should split a cell info payload followed by a frame", () => {
+    const frames = assembler.push(concat(cellInfo, deviceInfoFrame));
+    expect(frames).toEqual([cellInfo, deviceInfoFrame]);
+  });
+
+  it("should release a summary cell info payload without waiting", () => {
+    const summary = protocol.stringToBytes("80_25_-3_3200");
+    expect(assembler.push(summary)).toEqual([summary]);
+    expect(assembler.pendingBytes).toBe(0);
+  });
+
+  it("should flush a cell info payload of an unknown layout", () => {
+    const payload = protocol.stringToBytes("80_25_26_3200_3201_3202_3203");
+    expect(assembler.push(payload)).toEqual([]);
+    expect(assembler.flush()).toEqual([payload]);
+    expect(assembler.pendingBytes).toBe(0);
+  });
+
+  it("should resync past a binary frame that never completes on flush", () => {
+    const stray = new Uint8Array([0x73, 0xff, 0x23]);
+    expect(
+      assembler.push(concat(stray, deviceInfoFrame, runtimeFrame)),
+    ).toEqual([]);
+    expect(assembler.flush()).toEqual([deviceInfoFrame, runtimeFrame]);
+    expect(assembler.pendingBytes).toBe(0);
+  });
+
+  it("should keep a fragment too short to be cell info on flush", () => {
+    assembler.push(protocol.stringToBytes("80_25"));
+    expect(assembler.flush()).toEqual([]);
+    expect(assembler.pendingBytes).toBe(5);
+  });
+
+  it("should discard the buffer when it grows too large", () => {
+    assembler = new FrameAssembler({ maxBufferSize: 16 });
+    assembler.push(cellInfo.slice(0, 20));
+    expect(assembler.pendingBytes).toBe(0);
+  });
+});
@@ -0,0 +1,346 @@
+/**
+ * FrameAssembler - Reassembles protocol frames from a stream of byte chunks
+ *
+ * Transports such as BLE deliver data in notifications that do not necessarily
+ * line up with protocol frames: a long frame may be split across several
+ * notifications and several frames may arrive in a single one. The assembler
+ * buffers incoming bytes and cuts out complete frames:
+ *
+ * - Binary frames: `0x73 <length> 0x23 <command> ... <xor>`, delimited by the
+ *   length byte. With `verifyChecksum`, a frame whose checksum does not match
+ *   is treated as garbage so a corrupted length byte cannot swallow the frames
+ *   behind it
+ * - ASCII cell info payloads: digits separated by underscores (e.g.
+ *   `10_24_25_3162_3161_...`), delimited by the first byte that cannot be part
+ *   of the payload, complete once a known layout or the largest supported
+ *   cell count has its last voltage, or released with flush() once the
+ *   device stops sending
+ *
+ * Bytes that cannot start either kind of frame are discarded so the stream
+ * resynchronises after garbage. A binary frame that is still incomplete when
+ * flush() is called had a bogus length byte and is skipped as well.
+ */
+
+import { HMDeviceProtocol, PARSE_ERROR } from "./HMDeviceProtocol.js";
+
+export interface FrameAssemblerOptions {
+  /** Maximum number of bytes to buffer before the buffer is discarded */
+  maxBufferSize?: number;
+  /**
+   * Discard binary frames whose checksum does not match and resync from the
+   * next byte (default: false). Leave disabled to hand such frames to a
+   * lenient parser.
+   */
+  verifyChecksum?: boolean;
+  logger?: (message: string, ...args: unknown[]) => void;
+}
+
+// Number of underscores in the longest per-cell payload (soc, 2 temperatures
+// and HMDeviceProtocol.MAX_CELL_COUNT cells)
+const MAX_CELL_INFO_UNDERSCORES =
+  HMDeviceProtocol.CELL_INFO_HEADER_FIELDS +
+  HMDeviceProtocol.MAX_CELL_COUNT -
+  1;
+// Number of digits in a complete cell voltage (millivolts)
+const CELL_VOLTAGE_DIGITS = 4;
+// Minimum number of underscores for a summary cell info payload
+const MIN_CELL_INFO_UNDERSCORES = 3;
+// Number of underscores in the payloads devices are known to send: the
+// summary, the known cell counts and the longest payload
+const COMPLETE_CELL_INFO_UNDERSCORES: readonly number[] = [
+  MIN_CELL_INFO_UNDERSCORES,
+  ...HMDeviceProtocol.KNOWN_CELL_COUNTS.map(
+    (cells) => HMDeviceProtocol.CELL_INFO_HEADER_FIELDS + cells - 1,
+  ),
+  MAX_CELL_INFO_UNDERSCORES,
+];
+// Smallest valid binary frame (header + checksum)
+const MIN_FRAME_LENGTH = 5;
+
+const UNDERSCORE = 0x5f;
+const MINUS = 0x2d;
+
+function isDigit(byte: number): boolean {
+  return byte >= 0x30 && byte <= 0x39;
+}
+
+function isCellInfoByte(byte: number): boolean {
+  return isDigit(byte) || byte === UNDERSCORE || byte === MINUS;
+}
+
+/**
+ * FrameAssembler class - Buffers byte chunks and emits complete frames
+ */
+export class FrameAssembler {
+  private buffer: Uint8Array = new Uint8Array(0);
+  private maxBufferSize: number;
+  private verifyChecksum: boolean;
+  private protocol = new HMDeviceProtocol();
+  private logger?: (message: string, ...args: unknown[]) => void;
+
+  /**
+   * Constructor
+   * @param options Configuration options
+   */
+  constructor(options: FrameAssemblerOptions = {}) {
+    this.maxBufferSize = options.maxBufferSize ?? 1024;
+    this.verifyChecksum = options.verifyChecksum ?? false;
+    this.logger = options.logger;
+  }
+
+  /**
+   * Log a message using the configured logger
+   * @param message Message to log
+   * @param args Additional arguments
+   * @private
+   */
+  private log(message: string, ...args: unknown[]): void {
+    if (this.logger) {
+      this.logger(message, ...args);
+    }
+  }
+
+  /**
+   * Number of bytes buffered that do not yet form a complete frame
+   */
+  public get pendingBytes(): number {
+    return this.buffer.length;
+  }
+
+  /**
+   * Append a chunk of received bytes and extract all complete frames
+   * @param chunk Received bytes
+   * @returns Complete frames in the order they were received
+   */
+  public push(chunk: Uint8Array | DataView<ArrayBufferLike>): Uint8Array[] {
+    const bytes =
+      chunk instanceof Uint8Array
+        ? chunk
+        : new Uint8Array(chunk.buffer, chunk.byteOffset, chunk.byteLength);
+
+    const combined = new Uint8Array(this.buffer.length + bytes.length);
+    combined.set(this.buffer);
+    combined.set(bytes, this.buffer.length);
+    this.buffer = combined;
+
+    const frames = this.extractFrames();
+
+    if (this.buffer.length > this.maxBufferSize) {
+      this.log(
+        `Frame buffer exceeded ${this.maxBufferSize} bytes, discarding ${this.buffer.length} bytes`,
+      );
+      this.buffer = new Uint8Array(0);
+    }
+
+    return frames;
+  }
+
+  /**
+   * Release what is buffered once the device stopped sending: a cell info
+   * payload whose end could not be detected, e.g. a summary payload that was
+   * not followed by any further bytes, and the frames behind a binary frame
+   * that never completed. A fragment too short to be cell info is kept.
+   * @returns The flushed frames in the order they were received
+   */
+  public flush(): Uint8Array[] {
+    const frames: Uint8Array[] = [];
+
+    while (this.buffer.length > 0) {
+      if (this.buffer[0] === HMDeviceProtocol.START_BYTE) {
+        // The length byte promised more bytes than the device sent, so the
+        // start byte was garbage
+        this.dropBytes(1);
+      } else {
+        const end = this.scanCellInfo();
+        if (end.underscores < MIN_CELL_INFO_UNDERSCORES || end.length === 0) {
+          break;
+        }
+        frames.push(this.take(end.length));
+      }
+      frames.push(...this.extractFrames());
+    }
+
+    return frames;
+  }
+
+  /**
+   * Discard all buffered bytes
+   */
+  public reset(): void {
+    this.buffer = new Uint8Array(0);
+  }
+
+  /**
+   * Extract as many complete frames as possible from the buffer
+   * @private
+   */
+  private extractFrames(): Uint8Array[] {
+    const frames: Uint8Array[] = [];
+
+    while (this.buffer.length > 0) {
+      const first = this.buffer[0];
+
+      if (first === HMDeviceProtocol.START_BYTE) {
+        const frame = this.extractBinaryFrame();
+        if (frame === undefined) break; // Incomplete, wait for more data
+        if (frame) frames.push(frame);
+        continue;
+      }
+
+      if (isCellInfoByte(first)) {
+        const frame = this.extractCellInfo();
+        if (frame === undefined) break; // Incomplete, wait for more data
+        if (frame) frames.push(frame);
+        continue;
+      }
+
+      this.skipGarbage();
+    }
+
+    return frames;
+  }
+
+  /**
+   * Extract a binary frame from the start of the buffer
+   * @returns The frame, null if the start byte was garbage or the checksum did
+   * not match while verified, or undefined if more data is required
+   * @private
+   */
+  private extractBinaryFrame(): Uint8Array | null | undefined {
+    if (this.buffer.length < 2) return undefined;
+
+    const length = this.buffer[1];
+    if (length < MIN_FRAME_LENGTH) {
+      this.dropBytes(1);
+      return null;
+    }
+
+    if (
+      this.buffer.length >= 3 &&
+      this.buffer[2] !== HMDeviceProtocol.IDENTIFIER_BYTE
+    ) {
+      this.dropBytes(1);
+      return null;
+    }
+
+    if (this.buffer.length < length) return undefined;
+
+    // A corrupted length byte cuts the frame in the wrong place, which the
+    // checksum reveals; resync from the next byte instead
+    if (this.verifyChecksum) {
+      const expected = this.protocol.calculateChecksum(
+        this.buffer.subarray(0, length - 1),
+      );
+      const actual = this.buffer[length - 1];
+      if (expected !== actual) {
+        this.log(`Discarding frame: ${PARSE_ERROR.CHECKSUM_MISMATCH}`, {
+          offset: length - 1,
+          expected,
+          actual,
+        });
+        this.buffer = this.buffer.slice(1);
+        return null;
+      }
+    }
+
+    return this.take(length);
+  }
+
+  /**
+   * Extract an ASCII cell info payload from the start of the buffer
+   * @returns The payload, null if it was discarded, or undefined if more data
+   * is required
+   * @private
+   */
+  private extractCellInfo(): Uint8Array | null | undefined {
+    const scan = this.scanCellInfo();
+
+    if (scan.terminated) {
+      if (scan.underscores < MIN_CELL_INFO_UNDERSCORES) {
+        this.dropBytes(scan.length);
+        return null;
+      }
+      return this.take(scan.length);
+    }
+
+    // A known layout is complete once its last voltage has all its digits;
+    // other ones end at the next frame or are flushed when idle
+    if (
+      COMPLETE_CELL_INFO_UNDERSCORES.includes(scan.underscores) &&
+      scan.lastFieldLength >= CELL_VOLTAGE_DIGITS
+    ) {
+      return this.take(scan.length);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Measure the cell info payload at the start of the buffer
+   * @private
+   */
+  private scanCellInfo(): {
+    length: number;
+    underscores: number;
+    lastFieldLength: number;
+    terminated: boolean;
+  } {
+    let underscores = 0;
+    let lastFieldLength = 0;
+    let length = 0;
+
+    while (length < this.buffer.length && isCellInfoByte(this.buffer[length])) {
+      if (this.buffer[length] === UNDERSCORE) {
+        // Never swallow the first field of a following payload
+        if (underscores === MAX_CELL_INFO_UNDERSCORES) break;
+        underscores++;
+        lastFieldLength = 0;
+      } else {
+        lastFieldLength++;
+      }
+      length++;
+    }
+
+    return {
+      length,
+      underscores,
+      lastFieldLength,
+      terminated: length < this.buffer.length,
+    };
+  }
+
+  /**
+   * Drop bytes up to the next byte that could start a frame
+   * @private
+   */
+  private skipGarbage(): void {
+    let count = 1;
+    while (
+      count < this.buffer.length &&
+      this.buffer[count] !== HMDeviceProtocol.START_BYTE &&
+      !isCellInfoByte(this.buffer[count])
+    ) {
+      count++;
+    }
+    this.dropBytes(count);
+  }
+
+  /**
+   * Discard bytes from the start of the buffer
+   * @private
+   */
+  private dropBytes(count: number): void {
+    this.log(`Discarding ${count} unexpected byte(s) while resyncing`);
+    this.buffer = this.buffer.slice(count);
+  }
+
+  /**
+   * Remove and return bytes from the start of the buffer
+   * @private
+   */
+  private take(count: number): Uint8Array {
+    const frame = this.buffer.slice(0, count);
+    this.buffer = this.buffer.slice(count);
+    return frame;
+  }
+}
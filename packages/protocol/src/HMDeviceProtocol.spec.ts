@@ -1,4 +1,22 @@
-import { HMDeviceProtocol, COMMANDS, MQTTConfig } from "./HMDeviceProtocol.js";
+import {
+  HMDeviceProtocol,
+  COMMANDS,
+  MQTTConfig,
+  PARSE_ERROR,
+  CellInfoFormat,
+  DeviceRegion,
+  DeviceScene,
+  OutputState,
+  ExternalConnection,
+  DEVICE_REGION_LABELS,
+  DEVICE_SCENE_LABELS,
+  OUTPUT_STATE_LABELS,
+  EXTERNAL_CONNECTION_LABELS,
+  TimerInfo,
+  TimerSchedule,
+  RuntimeInfo,
+  CellInfo,
+} from "./HMDeviceProtocol.js";
 import "fast-text-encoding";
 
 describe("HMDeviceProtocol", () => {
@@ -112,6 +130,34 @@ describe("HMDeviceProtocol", () => {
     });
   });
 
+  describe("validateFrame", () => {
+    it("should return null for a valid frame", () => {
+      const message = protocol.createCommandMessage(COMMANDS.RUNTIME_INFO);
+      expect(protocol.validateFrame(message)).toBeNull();
+    });
+
+    it("should report length mismatches with offset and values", () => {
+      const message = protocol.createCommandMessage(COMMANDS.RUNTIME_INFO, [
+        0x01,
+      ]);
+      message[1] = 0x09;
+      expect(protocol.validateFrame(message)).toEqual({
+        error: PARSE_ERROR.INVALID_LENGTH,
+        details: { offset: 1, expected: 6, actual: 9 },
+      });
+    });
+
+    it("should report checksum mismatches with offset and values", () => {
+      const message = protocol.createCommandMessage(COMMANDS.RUNTIME_INFO);
+      const checksum = message[4];
+      message[4] = checksum ^ 0xff;
+      expect(protocol.validateFrame(message)).toEqual({
+        error: PARSE_ERROR.CHECKSUM_MISMATCH,
+        details: { offset: 4, expected: checksum, actual: checksum ^ 0xff },
+      });
+    });
+  });
+
   describe("parseMessage", () => {
     it("should parse device info message", () => {
       // Simulate a device info string: "type=HM-1000,id=12345,mac=00:11:22:33:44:55"
@@ -167,6 +213,137 @@ describe("HMDeviceProtocol", () => {
       }
     });
 
+    describe("strict mode", () => {
+      let strictProtocol: HMDeviceProtocol;
+
+      const createDeviceInfoFrame = (padding = 0) => {
+        const frame = protocol.createCommandMessage(
+          COMMANDS.DEVICE_INFO,
+          protocol.stringToBytes("type=HMA-1,id=1"),
+        );
+        const padded = new Uint8Array(frame.length + padding);
+        padded.set(frame);
+        return padded;
+      };
+
+      beforeEach(() => {
+        strictProtocol = new HMDeviceProtocol({ strict: true });
+      });
+
+      it("should accept a valid frame", () => {
+        const frame = createDeviceInfoFrame();
+        const result = strictProtocol.parseMessage(new DataView(frame.buffer));
+        expect(result.type).toBe(COMMANDS.DEVICE_INFO);
+      });
+
+      it("should reject a frame with a corrupted checksum", () => {
+        const frame = createDeviceInfoFrame();
+        frame[frame.length - 1] ^= 0x01;
+        const result = strictProtocol.parseMessage(new DataView(frame.buffer));
+        if (result.type === "unknown") {
+          expect(result.error).toBe(PARSE_ERROR.CHECKSUM_MISMATCH);
+          expect(result.details).toEqual({
+            offset: frame.length - 1,
+            expected: frame[frame.length - 1] ^ 0x01,
+            actual: frame[frame.length - 1],
+          });
+        } else {
+          throw new Error("Expected unknown message type");
+        }
+      });
+
+      it.each([
+        [
+          "a corrupted checksum",
+          (frame: Uint8Array) => (frame[frame.length - 1] ^= 0x01),
+        ],
+        ["a wrong length byte", (frame: Uint8Array) => (frame[1] = 3)],
+      ])("should reject framed cell info with %s", (_, corrupt) => {
+        const frame = protocol.createCommandMessage(
+          COMMANDS.CELL_INFO,
+          protocol.stringToBytes("80_25_26_3200"),
+        );
+        corrupt(frame);
+        expect(
+          strictProtocol.parseMessage(new DataView(frame.buffer)).type,
+        ).toBe("unknown");
+      });
+
+      it("should accept valid framed cell info", () => {
+        const frame = protocol.createCommandMessage(
+          COMMANDS.CELL_INFO,
+          protocol.stringToBytes("80_25_26_3200"),
+        );
+        expect(
+          strictProtocol.parseMessage(new DataView(frame.buffer)).type,
+        ).toBe(COMMANDS.CELL_INFO);
+      });
+
+      it("should reject a padded frame", () => {
+        const frame = createDeviceInfoFrame(3);
+        const result = strictProtocol.parseMessage(new DataView(frame.buffer));
+        if (result.type === "unknown") {
+          expect(result.error).toBe(PARSE_ERROR.INVALID_LENGTH);
+          expect(result.details).toEqual({
+            offset: 1,
+            expected: frame.length,
+            actual: frame.length - 3,
+          });
+        } else {
+          throw new Error("Expected unknown message type");
+        }
+      });
+
+      it("should accept a padded frame in lenient mode", () => {
+        const frame = createDeviceInfoFrame(3);
+        const result = protocol.parseMessage(new DataView(frame.buffer));
+        expect(result.type).toBe(COMMANDS.DEVICE_INFO);
+      });
+    });
+
+    it("should parse WiFi info with key-value pairs", () => {
+      const frame = protocol.createCommandMessage(
+        COMMANDS.WIFI_INFO,
+        protocol.stringToBytes("ssid=HomeNet,rssi=-61"),
+      );
+      const result = protocol.parseMessage(new DataView(frame.buffer));
+      if (result.type === COMMANDS.WIFI_INFO) {
+        expect(result.data.ssid).toBe("HomeNet");
+        expect(result.data.signal).toBe(-61);
+        expect(result.data.values).toEqual({ ssid: "HomeNet", rssi: "-61" });
+      } else {
+        throw new Error("Expected WiFi info message");
+      }
+    });
+
+    it("should parse WiFi info containing only the SSID", () => {
+      const frame = protocol.createCommandMessage(
+        COMMANDS.WIFI_INFO,
+        protocol.stringToBytes("HomeNet"),
+      );
+      const result = protocol.parseMessage(new DataView(frame.buffer));
+      if (result.type === COMMANDS.WIFI_INFO) {
+        expect(result.data.ssid).toBe("HomeNet");
+        expect(result.data.signal).toBeUndefined();
+      } else {
+        throw new Error("Expected WiFi info message");
+      }
+    });
+
+    it("should parse FC41D module info", () => {
+      const frame = protocol.createCommandMessage(
+        COMMANDS.MODULE_INFO,
+        protocol.stringToBytes("ver=1.0.8,build=20240101"),
+      );
+      const result = protocol.parseMessage(new DataView(frame.buffer));
+      if (result.type === COMMANDS.MODULE_INFO) {
+        expect(result.data.version).toBe("1.0.8");
+        expect(result.data.values.build).toBe("20240101");
+      } else {
+        throw new Error("Expected module info message");
+      }
+    });
+
     it("should handle unknown command", () => {
       const messageBytes = new Uint8Array([0x73, 0x05, 0x23, 0xff, 0x00]);
       messageBytes[4] = protocol.calculateChecksum(messageBytes.slice(0, 4));
@@ -180,6 +357,548 @@ describe("HMDeviceProtocol", () => {
     });
   });
 
+  describe("timers", () => {
+    const timer = (hour: number, outputPower: number): TimerInfo => ({
+      enabled: true,
+      start: { hour, minute: 0 },
+      end: { hour: hour + 1, minute: 30 },
+      outputPower,
+    });
+
+    const schedule = (timerCount: number): TimerSchedule => ({
+      adaptiveMode: true,
+      timers: Array.from({ length: timerCount }, (_, i) =>
+        timer(i * 2, 100 * (i + 1)),
+      ),
+      smartMeter: { connected: true, power: -250, reserved: [1, 2, 3, 4] },
+    });
+
+    const parseResponse = (payload: Uint8Array) => {
+      const frame = protocol.createCommandMessage(COMMANDS.GET_TIMERS, payload);
+      return protocol.parseMessage(new DataView(frame.buffer));
+    };
+
+    it("should round-trip a three timer packet", () => {
+      const payload = protocol.encodeTimerSchedule(schedule(3));
+      expect(payload.length).toBe(HMDeviceProtocol.TIMER_PACKET3_SIZE);
+      const result = parseResponse(payload);
+      if (result.type === COMMANDS.GET_TIMERS) {
+        expect(result.data).toEqual(schedule(3));
+      } else {
+        throw new Error("Expected timer message");
+      }
+    });
+
+    it("should round-trip a five timer packet", () => {
+      const payload = protocol.encodeTimerSchedule(schedule(5));
+      expect(payload.length).toBe(HMDeviceProtocol.TIMER_PACKET_SIZE);
+      const result = parseResponse(payload);
+      if (result.type === COMMANDS.GET_TIMERS) {
+        expect(result.data).toEqual(schedule(5));
+      } else {
+        throw new Error("Expected timer message");
+      }
+    });
+
+    it("should return null for a truncated timer response", () => {
+      const frame = protocol.createCommandMessage(COMMANDS.GET_TIMERS, [0x01]);
+      expect(protocol.parseTimerSchedule(new DataView(frame.buffer))).toBe(
+        null,
+      );
+    });
+
+    it.each([
+      [COMMANDS.GET_TIMERS, PARSE_ERROR.INVALID_TIMER_SCHEDULE],
+      [COMMANDS.RUNTIME_INFO, PARSE_ERROR.INVALID_RUNTIME_INFO],
+    ])(
+      "should report a truncated response to command %i as an unknown message",
+      (command, error) => {
+        const frame = protocol.createCommandMessage(command, [0x01]);
+        expect(protocol.parseMessage(new DataView(frame.buffer))).toMatchObject(
+          { type: "unknown", error },
+        );
+      },
+    );
+
+    it("should create a set timers payload", () => {
+      const payload = protocol.createSetTimersPayload([
+        {
+          enabled: true,
+          start: { hour: 8, minute: 0 },
+          end: { hour: 23, minute: 0 },
+          outputPower: 800,
+        },
+      ]);
+      expect(Array.from(payload)).toEqual([
+        0x01, 0x08, 0x00, 0x17, 0x00, 0x20, 0x03,
+      ]);
+    });
+
+    it("should reject invalid timers", () => {
+      expect(() => protocol.createSetTimersPayload([])).toThrow();
+      expect(() => protocol.createSetTimersPayload([timer(23, 100)])).toThrow();
+      expect(() =>
+        protocol.createSetTimersPayload([timer(1, 70000)]),
+      ).toThrow();
+    });
+  });
+
+  describe("date and time", () => {
+    it("should create a DateTimePacket payload", () => {
+      const payload = protocol.createDateTimePayload({
+        year: 2024,
+        month: 12,
+        day: 15,
+        hour: 14,
+        minute: 30,
+        second: 0,
+      });
+      expect(Array.from(payload)).toEqual([0x18, 0x0c, 0x0f, 0x0e, 0x1e, 0x00]);
+    });
+
+    it("should reject out of range fields", () => {
+      const valid = {
+        year: 2024,
+        month: 1,
+        day: 1,
+        hour: 0,
+        minute: 0,
+        second: 0,
+      };
+      expect(() =>
+        protocol.createDateTimePayload({ ...valid, year: 1999 }),
+      ).toThrow();
+      expect(() =>
+        protocol.createDateTimePayload({ ...valid, month: 13 }),
+      ).toThrow();
+      expect(() =>
+        protocol.createDateTimePayload({ ...valid, hour: 24 }),
+      ).toThrow();
+    });
+
+    it("should convert a date to wall-clock time in a time zone", () => {
+      const date = new Date("2024-03-31T01:30:05Z");
+      expect(protocol.toDeviceDateTime(date, "UTC")).toEqual({
+        year: 2024,
+        month: 3,
+        day: 31,
+        hour: 1,
+        minute: 30,
+        second: 5,
+      });
+      // DST started in Berlin at 01:00 UTC on that day
+      expect(protocol.toDeviceDateTime(date, "Europe/Berlin")).toEqual({
+        year: 2024,
+        month: 3,
+        day: 31,
+        hour: 3,
+        minute: 30,
+        second: 5,
+      });
+    });
+  });
+
+  describe("response encoders", () => {
+    // Deterministic pseudo-random numbers (mulberry32) so failures reproduce
+    const createRandom = (seed: number) => () => {
+      seed = (seed + 0x6d2b79f5) | 0;
+      let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+    const random = createRandom(2500);
+    const int = (min: number, max: number) =>
+      min + Math.floor(random() * (max - min + 1));
+    const bool = () => random() < 0.5;
+
+    const decodedEnums = (
+      info: Pick<
+        RuntimeInfo,
+        | "out1Active"
+        | "out2Active"
+        | "deviceScene"
+        | "extern1Connected"
+        | "extern2Connected"
+        | "deviceRegion"
+      >,
+    ) => ({
+      out1State: protocol.decodeEnum(OUTPUT_STATE_LABELS, info.out1Active),
+      out2State: protocol.decodeEnum(OUTPUT_STATE_LABELS, info.out2Active),
+      scene: protocol.decodeEnum(DEVICE_SCENE_LABELS, info.deviceScene),
+      extern1State: protocol.decodeEnum(
+        EXTERNAL_CONNECTION_LABELS,
+        info.extern1Connected,
+      ),
+      extern2State: protocol.decodeEnum(
+        EXTERNAL_CONNECTION_LABELS,
+        info.extern2Connected,
+      ),
+      region: protocol.decodeEnum(DEVICE_REGION_LABELS, info.deviceRegion),
+    });
+
+    const randomRuntimeInfo = (
+      extended: "none" | "subVersion" | "totals",
+    ): RuntimeInfo => {
+      const payloadSize =
+        extended === "none"
+          ? HMDeviceProtocol.RUNTIME_INFO_BASE_SIZE
+          : extended === "subVersion"
+            ? HMDeviceProtocol.RUNTIME_INFO_BASE_SIZE + 1
+            : HMDeviceProtocol.RUNTIME_INFO_SIZE;
+      const raw = {
+        head: HMDeviceProtocol.START_BYTE,
+        dataLength: payloadSize + 5,
+        cntl: HMDeviceProtocol.IDENTIFIER_BYTE,
+        command: COMMANDS.RUNTIME_INFO,
+        in1Active: { active: bool(), transparent: bool() },
+        in2Active: { active: bool(), transparent: bool() },
+        in1Power: int(0, 0xffff),
+        in2Power: int(0, 0xffff),
+        soc: int(0, 1000),
+        devVersion: int(0, 0xff),
+        chargeMode: { loadFirst: bool(), reserved: int(0, 0x7f) << 1 },
+        dischargeSetting: {
+          out1Enable: bool(),
+          out2Enable: bool(),
+          reserved: int(0, 0x3f) << 2,
+        },
+        wifiMqttState: { wifiConnected: bool(), mqttConnected: bool() },
+        out1Active: int(0, 0xff),
+        out2Active: int(0, 0xff),
+        dod: int(0, 100),
+        dischargeThreshold: int(0, 0xffff),
+        deviceScene: int(0, 0xff),
+        remainingCapacity: int(0, 0xffff),
+        out1Power: int(0, 0xffff),
+        out2Power: int(0, 0xffff),
+        extern1Connected: int(0, 0xff),
+        extern2Connected: int(0, 0xff),
+        deviceRegion: int(0, 0xff),
+        time: { hour: int(0, 23), minute: int(0, 59) },
+        temperatureLow: int(-0x8000, 0x7fff),
+        temperatureHigh: int(-0x8000, 0x7fff),
+        reserved1: int(0, 0xffff),
+      };
+      const info: RuntimeInfo = { ...raw, ...decodedEnums(raw) };
+      if (extended !== "none") {
+        info.deviceSubVersion = int(0, 0xff);
+      }
+      if (extended === "totals") {
+        info.dailyTotalBatteryCharge = int(0, 0xffffffff);
+        info.dailyTotalBatteryDischarge = int(0, 0xffffffff);
+        info.dailyTotalLoadCharge = int(0, 0xffffffff);
+        info.dailyTotalLoadDischarge = int(0, 0xffffffff);
+      }
+      return info;
+    };
+
+    const decodeRuntimeInfo = (payload: Uint8Array) => {
+      const frame = protocol.createCommandMessage(
+        COMMANDS.RUNTIME_INFO,
+        payload,
+      );
+      return protocol.parseRuntimeInfo(new DataView(frame.buffer));
+    };
+
+    it.each(["none", "subVersion", "totals"] as const)(
+      "should round-trip runtime info (extended fields: %s)",
+      (extended) => {
+        for (let i = 0; i < 100; i++) {
+          const info = randomRuntimeInfo(extended);
+          const payload = protocol.encodeRuntimeInfo(info);
+          expect(payload.length).toBe(info.dataLength - 5);
+          expect(decodeRuntimeInfo(payload)).toEqual(info);
+        }
+      },
+    );
+
+    it("should place runtime fields at the documented frame offsets", () => {
+      const info = randomRuntimeInfo("totals");
+      const frame = protocol.createCommandMessage(
+        COMMANDS.RUNTIME_INFO,
+        protocol.encodeRuntimeInfo(info),
+      );
+      const view = new DataView(frame.buffer);
+      expect(view.getUint16(19, true)).toBe(info.dischargeThreshold);
+      expect(view.getUint16(22, true)).toBe(info.remainingCapacity);
+      expect(view.getInt16(33, true)).toBe(info.temperatureLow);
+      expect(view.getUint8(39)).toBe(info.deviceSubVersion);
+      expect(view.getUint32(52, true)).toBe(info.dailyTotalLoadDischarge);
+    });
+
+    it("should encode missing daily totals before a set one as 0", () => {
+      const info = {
+        ...randomRuntimeInfo("none"),
+        dailyTotalBatteryDischarge: 42,
+      };
+      const decoded = decodeRuntimeInfo(protocol.encodeRuntimeInfo(info));
+      expect(decoded).toMatchObject({
+        deviceSubVersion: 0,
+        dailyTotalBatteryCharge: 0,
+        dailyTotalBatteryDischarge: 42,
+      });
+      expect(decoded.dailyTotalLoadCharge).toBeUndefined();
+    });
+
+    it("should decode runtime enum fields next to their raw values", () => {
+      const decoded = decodeRuntimeInfo(
+        protocol.encodeRuntimeInfo({
+          ...randomRuntimeInfo("none"),
+          out1Active: 1,
+          deviceScene: 2,
+          extern2Connected: 1,
+          deviceRegion: 0xff,
+        }),
+      );
+      expect(decoded).toMatchObject({
+        out1Active: 1,
+        out1State: { value: OutputState.Active, label: "Active", known: true },
+        deviceScene: 2,
+        scene: { value: DeviceScene.DuskDawn, label: "Dusk/Dawn", known: true },
+        extern2Connected: 1,
+        extern2State: { value: ExternalConnection.Connected, known: true },
+        deviceRegion: 0xff,
+        region: { value: DeviceRegion.NotSet, label: "Not Set", known: true },
+      });
+    });
+
+    it("should keep unknown runtime enum values as reported", () => {
+      const decoded = decodeRuntimeInfo(
+        protocol.encodeRuntimeInfo({
+          ...randomRuntimeInfo("none"),
+          deviceScene: 5,
+          deviceRegion: 0x10,
+        }),
+      );
+      expect(decoded.scene).toEqual({
+        value: 5,
+        label: "Unknown (0x05)",
+        known: false,
+      });
+      expect(decoded.region).toEqual({
+        value: 0x10,
+        label: "Unknown (0x10)",
+        known: false,
+      });
+    });
+
+    it("should reject runtime values that do not fit their field", () => {
+      expect(() =>
+        protocol.encodeRuntimeInfo({
+          ...randomRuntimeInfo("none"),
+          in1Power: 0x10000,
+        }),
+      ).toThrow("Invalid in1Power 65536");
+      expect(() =>
+        protocol.encodeRuntimeInfo({
+          ...randomRuntimeInfo("none"),
+          dod: 1.5,
+        }),
+      ).toThrow("Invalid dod 1.5");
+    });
+
+    it("should round-trip device info", () => {
+      const info = {
+        type: "HMA-1",
+        id: "0123456789",
+        mac: "E8:8D:A6:00:00:01",
+        firmwareVersion: "220.1",
+        extra: { token: "a=b" },
+        malformed: [],
+      };
+      const payload = protocol.encodeDeviceInfo({
+        ...info,
+        hardwareVersion: undefined,
+      });
+      expect(protocol.bytesToString(payload)).toBe(
+        "type=HMA-1,id=0123456789,mac=e88da6000001,fw=220.1,token=a=b",
+      );
+      const frame = protocol.createCommandMessage(
+        COMMANDS.DEVICE_INFO,
+        payload,
+      );
+      const result = protocol.parseMessage(new DataView(frame.buffer));
+      if (result.type === COMMANDS.DEVICE_INFO) {
+        expect(result.data).toEqual(info);
+      } else {
+        throw new Error("Expected device info message");
+      }
+    });
+
+    it("should reject device info that cannot be encoded", () => {
+      expect(() => protocol.encodeDeviceInfo({ type: "a,b" })).toThrow(
+        'Invalid device info entry "type=a,b"',
+      );
+      expect(() => protocol.encodeDeviceInfo({ id: "" })).toThrow(
+        'Invalid device info entry "id="',
+      );
+      expect(() => protocol.encodeDeviceInfo({ mac: "e88da6" })).toThrow(
+        'Invalid MAC address "e88da6"',
+      );
+    });
+
+    it("should round-trip cell info", () => {
+      for (let i = 0; i < 100; i++) {
+        const cellCount = bool() ? 0 : int(2, HMDeviceProtocol.MAX_CELL_COUNT);
+        const info: CellInfo = {
+          soc: int(0, 100),
+          temperature1: int(-40, 60),
+          temperature2: int(-40, 60),
+          cellVoltages: Array.from({ length: cellCount }, () =>
+            int(2500, 3650),
+          ),
+          format: cellCount ? CellInfoFormat.PerCell : CellInfoFormat.Summary,
+          cellCount,
+        };
+        if (!cellCount) {
+          info.voltage = int(2500, 3650);
+        }
+        const payload = protocol.encodeCellInfo(info);
+        const result = protocol.parseMessage(new DataView(payload.buffer));
+        if (result.type === COMMANDS.CELL_INFO) {
+          expect(result.data).toEqual(info);
+        } else {
+          throw new Error("Expected cell info message");
+        }
+      }
+    });
+
+    it("should reject cell info values that cannot be encoded", () => {
+      expect(() =>
+        protocol.encodeCellInfo({
+          soc: 50,
+          temperature1: 20,
+          temperature2: 20,
+          cellVoltages: [3200, 3200.5],
+          format: CellInfoFormat.PerCell,
+          cellCount: 2,
+        }),
+      ).toThrow(
+        "Invalid cell info voltage 3200.5, expected an integer between 2000 and 4500",
+      );
+      expect(() =>
+        protocol.encodeCellInfo({
+          soc: 50,
+          temperature1: 20,
+          temperature2: 20,
+          cellVoltages: [3200],
+          format: CellInfoFormat.PerCell,
+          cellCount: 1,
+        }),
+      ).toThrow("Invalid cell count 1");
+    });
+  });
+
+  describe("normalized views", () => {
+    const runtimeInfo = (): RuntimeInfo => ({
+      head: HMDeviceProtocol.START_BYTE,
+      dataLength: 57,
+      cntl: HMDeviceProtocol.IDENTIFIER_BYTE,
+      command: COMMANDS.RUNTIME_INFO,
+      in1Active: { active: true, transparent: false },
+      in2Active: { active: false, transparent: false },
+      in1Power: 320,
+      in2Power: 0,
+      soc: 753,
+      devVersion: 220,
+      chargeMode: { loadFirst: true, reserved: 0 },
+      dischargeSetting: { out1Enable: true, out2Enable: false, reserved: 0 },
+      wifiMqttState: { wifiConnected: true, mqttConnected: false },
+      out1Active: 1,
+      out2Active: 0,
+      dod: 90,
+      dischargeThreshold: 150,
+      deviceScene: 0,
+      remainingCapacity: 1687,
+      out1Power: 180,
+      out2Power: 0,
+      extern1Connected: 0,
+      extern2Connected: 0,
+      deviceRegion: 0,
+      time: { hour: 14, minute: 5 },
+      temperatureLow: -15,
+      temperatureHigh: 215,
+      reserved1: 0,
+      out1State: { value: OutputState.Active, label: "Active", known: true },
+      out2State: {
+        value: OutputState.Inactive,
+        label: "Inactive",
+        known: true,
+      },
+      scene: { value: DeviceScene.Day, label: "Day", known: true },
+      extern1State: {
+        value: ExternalConnection.Disconnected,
+        label: "Disconnected",
+        known: true,
+      },
+      extern2State: {
+        value: ExternalConnection.Disconnected,
+        label: "Disconnected",
+        known: true,
+      },
+      region: { value: DeviceRegion.EU, label: "EU", known: true },
+    });
+
+    it("should convert runtime info to plain units", () => {
+      const normalized = protocol.toNormalizedRuntime({
+        ...runtimeInfo(),
+        deviceSubVersion: 3,
+        dailyTotalBatteryCharge: 12345,
+        dailyTotalBatteryDischarge: 0,
+        dailyTotalLoadCharge: 25,
+        dailyTotalLoadDischarge: 9999,
+      });
+
+      expect(normalized).toMatchObject({
+        soc: { value: 75.3, unit: "%" },
+        in1Power: { value: 320, unit: "W" },
+        dod: { value: 90, unit: "%" },
+        dischargeThreshold: { value: 150, unit: "W" },
+        remainingCapacity: { value: 1687, unit: "Wh" },
+        out1Power: { value: 180, unit: "W" },
+        temperatureLow: { value: -1.5, unit: "°C" },
+        temperatureHigh: { value: 21.5, unit: "°C" },
+        dailyTotalBatteryCharge: { value: 1234.5, unit: "Wh" },
+        dailyTotalBatteryDischarge: { value: 0, unit: "Wh" },
+        dailyTotalLoadCharge: { value: 2.5, unit: "Wh" },
+        dailyTotalLoadDischarge: { value: 999.9, unit: "Wh" },
+        // Fields without a unit are kept as decoded
+        deviceSubVersion: 3,
+        chargeMode: { loadFirst: true },
+        time: { hour: 14, minute: 5 },
+      });
+    });
+
+    it("should leave out daily totals the device did not report", () => {
+      const normalized = protocol.toNormalizedRuntime(runtimeInfo());
+      expect(normalized).not.toHaveProperty("dailyTotalBatteryCharge");
+      expect(normalized).not.toHaveProperty("dailyTotalLoadDischarge");
+    });
+
+    it("should convert cell voltages to volts", () => {
+      expect(
+        protocol.toNormalizedCellInfo({
+          soc: 80,
+          temperature1: 25,
+          temperature2: 26,
+          cellVoltages: [3200, 3213],
+          format: CellInfoFormat.PerCell,
+          cellCount: 2,
+        }),
+      ).toEqual({
+        soc: { value: 80, unit: "%" },
+        temperature1: { value: 25, unit: "°C" },
+        temperature2: { value: 26, unit: "°C" },
+        cellVoltages: [
+          { value: 3.2, unit: "V" },
+          { value: 3.213, unit: "V" },
+        ],
+        format: CellInfoFormat.PerCell,
+        cellCount: 2,
+      });
+    });
+  });
+
   describe("createWifiConfigPayload", () => {
     it("should create valid wifi config payload", () => {
       const ssid = "TestSSID";
@@ -190,6 +909,240 @@ describe("HMDeviceProtocol", () => {
     });
   });
 
+  describe("output control bitfields", () => {
+    const runtimeFrame = (chargeMode: number, dischargeSetting: number) => {
+      const payload = new Uint8Array(34);
+      payload[13 - 4] = chargeMode;
+      payload[14 - 4] = dischargeSetting;
+      const frame = protocol.createCommandMessage(
+        COMMANDS.RUNTIME_INFO,
+        payload,
+      );
+      return protocol.parseRuntimeInfo(new DataView(frame.buffer));
+    };
+
+    it("should round-trip the ChargeMode byte with reserved bits", () => {
+      const info = runtimeFrame(0xa1, 0x00);
+      expect(info.chargeMode.loadFirst).toBe(true);
+      expect(protocol.encodeChargeMode(info.chargeMode)).toBe(0xa1);
+      expect(
+        protocol.encodeChargeMode({ ...info.chargeMode, loadFirst: false }),
+      ).toBe(0xa0);
+    });
+
+    it("should round-trip the DisChargeSetting byte with reserved bits", () => {
+      const info = runtimeFrame(0x00, 0x46);
+      expect(info.dischargeSetting.out1Enable).toBe(false);
+      expect(info.dischargeSetting.out2Enable).toBe(true);
+      expect(protocol.encodeDischargeSetting(info.dischargeSetting)).toBe(0x46);
+      expect(
+        protocol.encodeDischargeSetting({
+          ...info.dischargeSetting,
+          out1Enable: true,
+        }),
+      ).toBe(0x47);
+    });
+
+    it("should encode bitfields without reserved bits", () => {
+      expect(protocol.encodeChargeMode({ loadFirst: true })).toBe(0x01);
+      expect(
+        protocol.encodeDischargeSetting({ out1Enable: true, out2Enable: true }),
+      ).toBe(0x03);
+    });
+  });
+
+  describe("parseCellInfo", () => {
+    const parse = (text: string, framed = false) => {
+      const bytes = protocol.stringToBytes(text);
+      return protocol.parseCellInfo(
+        new DataView(
+          framed
+            ? protocol.createCommandMessage(COMMANDS.CELL_INFO, bytes).buffer
+            : bytes.buffer,
+        ),
+      );
+    };
+
+    it("should parse the summary format with sub-zero temperatures", () => {
+      expect(parse("80_-12_-3_3200")).toEqual({
+        soc: 80,
+        temperature1: -12,
+        temperature2: -3,
+        cellVoltages: [],
+        format: CellInfoFormat.Summary,
+        cellCount: 0,
+        voltage: 3200,
+      });
+    });
+
+    it("should report the number of cells", () => {
+      const voltages = Array.from({ length: 16 }, (_, index) => 3300 + index);
+      expect(parse(`55_-5_2_${voltages.join("_")}`)).toMatchObject({
+        format: CellInfoFormat.PerCell,
+        cellCount: 16,
+        cellVoltages: voltages,
+      });
+    });
+
+    it("should not read the frame checksum as a digit", () => {
+      const text = "80_-12_25_3200_3201_3205";
+      const frame = protocol.createCommandMessage(
+        COMMANDS.CELL_INFO,
+        protocol.stringToBytes(text),
+      );
+      expect(String.fromCharCode(frame[frame.length - 1])).toBe("9");
+
+      expect(parse(text, true)).toMatchObject({
+        temperature1: -12,
+        cellVoltages: [3200, 3201, 3205],
+        cellCount: 3,
+      });
+    });
+
+    it.each([
+      ["a cell voltage out of range", "80_25_26_3200_5200"],
+      ["an implausible temperature", "80_25_260_3200_3201"],
+      ["an SOC above 100", "180_25_26_3200_3201"],
+      ["a malformed field", "80_25_2-6_3200_3201"],
+      ["too few fields", "80_25_26"],
+    ])("should reject cell info with %s", (_, text) => {
+      expect(parse(text)).toBeNull();
+    });
+
+    it("should report implausible cell info as an unknown message", () => {
+      const bytes = protocol.stringToBytes("80_25_260_3200_3201");
+      expect(protocol.parseMessage(new DataView(bytes.buffer))).toMatchObject({
+        type: "unknown",
+        error: PARSE_ERROR.INVALID_CELL_INFO,
+      });
+    });
+  });
+
+  describe("parseDeviceInfo", () => {
+    const parse = (text: string) =>
+      protocol.parseDeviceInfo(
+        new DataView(
+          protocol.createCommandMessage(
+            COMMANDS.DEVICE_INFO,
+            protocol.stringToBytes(text),
+          ).buffer,
+        ),
+      );
+
+    it("should decode known keys into typed fields", () => {
+      expect(
+        parse("type=HMA-1,id=0123456789,mac=e88da6000001,fw=220,hw=2,vid=7"),
+      ).toEqual({
+        type: "HMA-1",
+        id: "0123456789",
+        mac: "E8:8D:A6:00:00:01",
+        firmwareVersion: "220",
+        hardwareVersion: "2",
+        extra: { vid: "7" },
+        malformed: [],
+      });
+    });
+
+    it.each(["e88da6000001", "E8:8D:A6:00:00:01", "e8-8d-a6-00-00-01"])(
+      "should normalize the MAC address %s",
+      (mac) => {
+        expect(parse(`mac=${mac}`).mac).toBe("E8:8D:A6:00:00:01");
+      },
+    );
+
+    it("should keep values containing '=' and report malformed segments", () => {
+      expect(
+        parse("type=HMA-1,token=abc==,garbage,=orphan,mac=e88da6,id="),
+      ).toEqual({
+        type: "HMA-1",
+        extra: { token: "abc==" },
+        malformed: ["garbage", "=orphan", "mac=e88da6", "id="],
+      });
+    });
+  });
+
+  describe("resolveCapabilities", () => {
+    it("should report the model and the observed runtime fields", () => {
+      const capabilities = protocol.resolveCapabilities({
+        type: "HMA-1",
+        devVersion: 205,
+      });
+      expect(capabilities).toEqual({
+        model: "HMA",
+        knownModel: true,
+        firmwareVersion: 205,
+        commands: Object.values(COMMANDS),
+        timerCount: undefined,
+        deviceSubVersion: false,
+        dailyTotals: false,
+      });
+      expect(
+        protocol.resolveCapabilities({
+          type: "HMJ-2",
+          devVersion: 215,
+          deviceSubVersion: 4,
+          dailyTotals: true,
+        }),
+      ).toMatchObject({ deviceSubVersion: true, dailyTotals: true });
+    });
+
+    it("should take the timer count from the timer response", () => {
+      expect(
+        protocol.resolveCapabilities({ type: "HMJ-2", timerCount: 3 }),
+      ).toMatchObject({ timerCount: 3 });
+    });
+
+    it("should not gate commands on the firmware version", () => {
+      const all = Object.values(COMMANDS);
+      expect(protocol.resolveCapabilities({}).commands).toEqual(all);
+      expect(
+        protocol.resolveCapabilities({ type: "HMA-1", devVersion: 100 })
+          .commands,
+      ).toEqual(all);
+      expect(
+        protocol.resolveCapabilities({ type: "XYZ-1", devVersion: 100 }),
+      ).toMatchObject({ model: "XYZ", knownModel: false });
+    });
+  });
+
+  describe("createRegionPayload", () => {
+    it("should encode the region code", () => {
+      expect(
+        Array.from(protocol.createRegionPayload(DeviceRegion.NonEU)),
+      ).toEqual([0x02]);
+    });
+
+    it("should reject regions that cannot be set", () => {
+      expect(() => protocol.createRegionPayload(DeviceRegion.NotSet)).toThrow();
+      expect(() => protocol.createRegionPayload(7 as DeviceRegion)).toThrow();
+    });
+  });
+
+  describe("createDepthOfDischargePayload", () => {
+    it("should encode the percentage as a single byte", () => {
+      const payload = protocol.createDepthOfDischargePayload(80);
+      expect(Array.from(payload)).toEqual([0x50]);
+    });
+
+    it("should reject values outside 0-100", () => {
+      expect(() => protocol.createDepthOfDischargePayload(101)).toThrow();
+      expect(() => protocol.createDepthOfDischargePayload(-1)).toThrow();
+      expect(() => protocol.createDepthOfDischargePayload(50.5)).toThrow();
+    });
+  });
+
+  describe("createDischargeThresholdPayload", () => {
+    it("should encode watts as uint16 little-endian", () => {
+      const payload = protocol.createDischargeThresholdPayload(1000);
+      expect(Array.from(payload)).toEqual([0xe8, 0x03]);
+    });
+
+    it("should reject values outside the uint16 range", () => {
+      expect(() => protocol.createDischargeThresholdPayload(65536)).toThrow();
+      expect(() => protocol.createDischargeThresholdPayload(-5)).toThrow();
+    });
+  });
+
   describe("createMqttConfigPayload", () => {
     it("should create valid mqtt config payload", () => {
       const config: MQTTConfig = {
@@ -10,7 +10,20 @@ export interface DeviceInfo {
   type?: string;
   id?: string;
   mac?: string;
-  [key: string]: string | undefined;
+  firmwareVersion?: string;
+  hardwareVersion?: string;
+  extra: Record<string, string>;
+  malformed: string[];
+}
+
+/**
+ * Cell info payload layouts, numbered by format version
+ */
+export enum CellInfoFormat {
+  /** `soc_t1_t2_voltage`: one voltage for the whole battery */
+  Summary = 1,
+  /** `soc_t1_t2_v1_..._vN`: one voltage per cell */
+  PerCell = 2,
 }
 
 export interface CellInfo {
@@ -18,6 +31,9 @@ export interface CellInfo {
   temperature1: number;
   temperature2: number;
   cellVoltages: number[];
+  format: CellInfoFormat;
+  cellCount: number;
+  voltage?: number;
 }
 
 export interface WifiMqttState {
@@ -48,10 +64,12 @@ export interface RuntimeInfo {
   deviceSubVersion?: number;
   chargeMode: {
     loadFirst: boolean;
+    reserved?: number;
   };
   dischargeSetting: {
     out1Enable: boolean;
     out2Enable: boolean;
+    reserved?: number;
   };
   wifiMqttState: WifiMqttState;
   out1Active: number;
@@ -73,6 +91,14 @@ export interface RuntimeInfo {
   temperatureHigh: number;
   reserved1: number;
 
+  // Decoded enum fields
+  out1State: EnumValue<OutputState>;
+  out2State: EnumValue<OutputState>;
+  scene: EnumValue<DeviceScene>;
+  extern1State: EnumValue<ExternalConnection>;
+  extern2State: EnumValue<ExternalConnection>;
+  region: EnumValue<DeviceRegion>;
+
   // Extended fields
   dailyTotalBatteryCharge?: number;
   dailyTotalBatteryDischarge?: number;
@@ -88,14 +114,288 @@ export interface MQTTConfig {
   password?: string;
 }
 
+/**
+ * A single time-of-day output power timer
+ */
+export interface TimerInfo {
+  /** Whether the timer is enabled */
+  enabled: boolean;
+  /** Start of the time window */
+  start: {
+    hour: number;
+    minute: number;
+  };
+  /** End of the time window */
+  end: {
+    hour: number;
+    minute: number;
+  };
+  /** Output power while the timer is active (W) */
+  outputPower: number;
+}
+
+/**
+ * Smart meter block trailing the timer response
+ */
+export interface SmartMeterInfo {
+  /** Whether a smart meter is connected */
+  connected: boolean;
+  /** Power reported by the smart meter (W) */
+  power: number;
+  /** Undocumented trailing bytes, kept for re-encoding */
+  reserved: number[];
+}
+
+/**
+ * Timer configuration as reported by Get Timers (0x13)
+ */
+export interface TimerSchedule {
+  /** Whether adaptive mode is enabled */
+  adaptiveMode: boolean;
+  /** Configured timers (3 on older firmware, 5 on newer firmware) */
+  timers: TimerInfo[];
+  /** Smart meter information */
+  smartMeter: SmartMeterInfo;
+}
+
+/**
+ * Wall-clock date and time as stored by the device (DateTimePacket)
+ */
+export interface DeviceDateTime {
+  /** Full year (2000-2255) */
+  year: number;
+  /** Month (1-12) */
+  month: number;
+  /** Day of month (1-31) */
+  day: number;
+  /** Hour (0-23) */
+  hour: number;
+  /** Minute (0-59) */
+  minute: number;
+  /** Second (0-59) */
+  second: number;
+}
+
+/**
+ * WiFi module connection details reported by WiFi Info (0x09)
+ */
+export interface WifiInfo {
+  /** SSID of the network the WiFi module is configured for */
+  ssid?: string;
+  /** Signal strength (RSSI, dBm) if reported */
+  signal?: number;
+  /** All key-value pairs reported by the device */
+  values: Record<string, string>;
+  /** Response payload as text */
+  raw: string;
+}
+
+/**
+ * FC41D WiFi module firmware details reported by FC41D Info (0x23)
+ */
+export interface ModuleFirmwareInfo {
+  /** Module firmware version if reported */
+  version?: string;
+  /** All key-value pairs reported by the device */
+  values: Record<string, string>;
+  /** Response payload as text */
+  raw: string;
+}
+
+/**
+ * Unit of a normalized measurement
+ */
+export type MeasurementUnit = "%" | "°C" | "W" | "Wh" | "V";
+
+/**
+ * A value together with its unit
+ */
+export interface Measurement<U extends MeasurementUnit = MeasurementUnit> {
+  value: number;
+  unit: U;
+}
+
+/**
+ * Runtime info with every scaled integer converted to a measurement in
+ * percent, °C, W or Wh. All other fields are kept as decoded.
+ */
+export interface NormalizedRuntimeInfo
+  extends Omit<
+    RuntimeInfo,
+    | "soc"
+    | "in1Power"
+    | "in2Power"
+    | "dod"
+    | "dischargeThreshold"
+    | "remainingCapacity"
+    | "out1Power"
+    | "out2Power"
+    | "temperatureLow"
+    | "temperatureHigh"
+    | "dailyTotalBatteryCharge"
+    | "dailyTotalBatteryDischarge"
+    | "dailyTotalLoadCharge"
+    | "dailyTotalLoadDischarge"
+  > {
+  soc: Measurement<"%">;
+  in1Power: Measurement<"W">;
+  in2Power: Measurement<"W">;
+  dod: Measurement<"%">;
+  dischargeThreshold: Measurement<"W">;
+  remainingCapacity: Measurement<"Wh">;
+  out1Power: Measurement<"W">;
+  out2Power: Measurement<"W">;
+  temperatureLow: Measurement<"°C">;
+  temperatureHigh: Measurement<"°C">;
+  dailyTotalBatteryCharge?: Measurement<"Wh">;
+  dailyTotalBatteryDischarge?: Measurement<"Wh">;
+  dailyTotalLoadCharge?: Measurement<"Wh">;
+  dailyTotalLoadDischarge?: Measurement<"Wh">;
+}
+
+/**
+ * Cell info with the cell voltages in volts
+ */
+export interface NormalizedCellInfo {
+  soc: Measurement<"%">;
+  temperature1: Measurement<"°C">;
+  temperature2: Measurement<"°C">;
+  cellVoltages: Measurement<"V">[];
+  format: CellInfoFormat;
+  cellCount: number;
+  voltage?: Measurement<"V">;
+}
+
+/**
+ * What is known about a device's hardware and firmware: the type from Device
+ * Info (0x04), the versions from Runtime Info (0x03) and the shape of the
+ * responses it sent
+ */
+export interface DeviceIdentity {
+  /** Device type, e.g. "HMA-1" */
+  type?: string;
+  /** Firmware version */
+  devVersion?: number;
+  /** Firmware sub-version, if the device reports one */
+  deviceSubVersion?: number;
+  /** Whether runtime info was seen carrying the daily totals */
+  dailyTotals?: boolean;
+  /** Number of timers in the device's Get Timers (0x13) response */
+  timerCount?: number;
+}
+
+/**
+ * Commands and runtime fields a device supports
+ */
+export interface DeviceCapabilities {
+  /** Model from the device type, e.g. "HMA" for "HMA-1" */
+  model?: string;
+  /** Whether the model is a known B2500 hardware revision */
+  knownModel: boolean;
+  /** Firmware version the capabilities were resolved for */
+  firmwareVersion?: number;
+  /** Command types the device accepts */
+  commands: number[];
+  /** Number of output power timers (3 or 5), undefined until timers were read */
+  timerCount?: number;
+  /** Whether runtime info carries deviceSubVersion */
+  deviceSubVersion: boolean;
+  /** Whether runtime info carries the four daily totals */
+  dailyTotals: boolean;
+}
+
+/**
+ * A decoded enum byte. Values the protocol does not define are kept as
+ * reported, with `known` set to false.
+ */
+export interface EnumValue<E extends number> {
+  /** Enum member, or the raw value if it is unknown */
+  value: E;
+  /** Human-readable label, e.g. "EU" or "Unknown (0x05)" */
+  label: string;
+  /** Whether the value is a member of the enum */
+  known: boolean;
+}
+
+/**
+ * Device region codes
+ */
+export enum DeviceRegion {
+  EU = 0x00,
+  China = 0x01,
+  NonEU = 0x02,
+  NotSet = 0xff,
+}
+
+/**
+ * Device scene codes
+ */
+export enum DeviceScene {
+  Day = 0x00,
+  Night = 0x01,
+  DuskDawn = 0x02,
+}
+
+/**
+ * Output state codes (OutActive)
+ */
+export enum OutputState {
+  Inactive = 0x00,
+  Active = 0x01,
+}
+
+/**
+ * External battery pack connection codes (ExternConnected)
+ */
+export enum ExternalConnection {
+  Disconnected = 0x00,
+  Connected = 0x01,
+}
+
+export const DEVICE_REGION_LABELS: Record<DeviceRegion, string> = {
+  [DeviceRegion.EU]: "EU",
+  [DeviceRegion.China]: "China",
+  [DeviceRegion.NonEU]: "Non-EU",
+  [DeviceRegion.NotSet]: "Not Set",
+};
+
+export const DEVICE_SCENE_LABELS: Record<DeviceScene, string> = {
+  [DeviceScene.Day]: "Day",
+  [DeviceScene.Night]: "Night",
+  [DeviceScene.DuskDawn]: "Dusk/Dawn",
+};
+
+export const OUTPUT_STATE_LABELS: Record<OutputState, string> = {
+  [OutputState.Inactive]: "Inactive",
+  [OutputState.Active]: "Active",
+};
+
+export const EXTERNAL_CONNECTION_LABELS: Record<ExternalConnection, string> = {
+  [ExternalConnection.Disconnected]: "Disconnected",
+  [ExternalConnection.Connected]: "Connected",
+};
+
 // Command types
 export const COMMANDS = {
+  SET_REGION: 0x02,
   RUNTIME_INFO: 0x03,
   DEVICE_INFO: 0x04,
+  WIFI_INFO: 0x09,
   CELL_INFO: 0x0f,
   SET_WIFI: 0x05,
+  SET_DOD: 0x0b,
+  SET_DISCHARGE_THRESHOLD: 0x0c,
+  SET_LOAD_FIRST: 0x0d,
+  SET_POWER_OUT: 0x0e,
+  ENABLE_ADAPTIVE_MODE: 0x11,
+  SET_TIMERS: 0x12,
+  GET_TIMERS: 0x13,
+  SET_DATE_TIME: 0x14,
   SET_MQTT: 0x20,
   RESET_MQTT: 0x21,
+  MODULE_INFO: 0x23,
+  REBOOT: 0x25,
+  FACTORY_RESET: 0x26,
 } as const;
 
 export const PARSE_ERROR = {
@@ -103,8 +403,37 @@ export const PARSE_ERROR = {
   INVALID_LENGTH: "Invalid length",
   CHECKSUM_MISMATCH: "Checksum mismatch",
   UNKNOWN_COMMAND: "Unknown command",
+  INVALID_CELL_INFO: "Invalid cell info",
+  INVALID_RUNTIME_INFO: "Invalid runtime info",
+  INVALID_TIMER_SCHEDULE: "Invalid timer schedule",
+};
+
+/**
+ * Location and values of a frame validation failure
+ */
+export interface ParseErrorDetails {
+  /** Byte offset of the offending field within the frame */
+  offset: number;
+  /** Value the protocol expects at that offset */
+  expected: number;
+  /** Value actually found at that offset */
+  actual: number;
+}
+
+export type FrameValidationError = {
+  error: (typeof PARSE_ERROR)[keyof typeof PARSE_ERROR];
+  details: ParseErrorDetails;
 };
 
+export interface HMDeviceProtocolOptions {
+  logger?: (message: string, ...args: unknown[]) => void;
+  /**
+   * Reject frames whose length byte or XOR checksum does not match.
+   * Defaults to false (lenient), which tolerates firmware that pads frames.
+   */
+  strict?: boolean;
+}
+
 export type ParsedMessage = {
   rawData: Uint8Array;
 } & (
@@ -120,9 +449,22 @@ export type ParsedMessage = {
       type: typeof COMMANDS.DEVICE_INFO;
       data: DeviceInfo;
     }
+  | {
+      type: typeof COMMANDS.GET_TIMERS;
+      data: TimerSchedule;
+    }
+  | {
+      type: typeof COMMANDS.WIFI_INFO;
+      data: WifiInfo;
+    }
+  | {
+      type: typeof COMMANDS.MODULE_INFO;
+      data: ModuleFirmwareInfo;
+    }
   | {
       type: "unknown";
       error: (typeof PARSE_ERROR)[keyof typeof PARSE_ERROR];
+      details?: ParseErrorDetails;
     }
 );
 
@@ -134,17 +476,74 @@ export class HMDeviceProtocol {
   static readonly START_BYTE = 0x73;
   static readonly IDENTIFIER_BYTE = 0x23;
 
+  // Timer packet layout
+  static readonly TIMER_INFO_SIZE = 7;
+  static readonly SMART_METER_INFO_SIZE = 7;
+  static readonly TIMER_RESERVED_SIZE = 10;
+  static readonly BASE_TIMER_COUNT = 3;
+  static readonly MAX_TIMER_COUNT = 5;
+  // adaptive mode + 3 timers + smart meter
+  static readonly TIMER_PACKET3_SIZE =
+    1 +
+    HMDeviceProtocol.BASE_TIMER_COUNT * HMDeviceProtocol.TIMER_INFO_SIZE +
+    HMDeviceProtocol.SMART_METER_INFO_SIZE;
+  // TimerInfoPacket3 + reserved + 2 additional timers
+  static readonly TIMER_PACKET_SIZE =
+    HMDeviceProtocol.TIMER_PACKET3_SIZE +
+    HMDeviceProtocol.TIMER_RESERVED_SIZE +
+    (HMDeviceProtocol.MAX_TIMER_COUNT - HMDeviceProtocol.BASE_TIMER_COUNT) *
+      HMDeviceProtocol.TIMER_INFO_SIZE;
+
+  // Runtime info layout: payload up to reserved1, and with the sub version
+  // and the four daily totals appended by newer firmware
+  static readonly RUNTIME_INFO_BASE_SIZE = 35;
+  static readonly RUNTIME_INFO_SIZE = 52;
+
+  // Type prefixes of the known B2500 hardware revisions
+  static readonly B2500_MODELS: readonly string[] = [
+    "HMA",
+    "HMB",
+    "HMJ",
+    "HMK",
+  ];
+
+  // Cell info layout: soc, two temperatures, then a single voltage in the
+  // summary format or one voltage per cell
+  static readonly CELL_INFO_HEADER_FIELDS = 3;
+  static readonly MIN_CELL_COUNT = 2;
+  static readonly MAX_CELL_COUNT = 32;
+  // Cell counts devices are known to report (the B2500 pack has 14 cells)
+  static readonly KNOWN_CELL_COUNTS: readonly number[] = [14];
+  // Plausible cell temperatures (°C) and Li-ion cell voltages (mV)
+  static readonly MIN_CELL_TEMPERATURE = -40;
+  static readonly MAX_CELL_TEMPERATURE = 100;
+  static readonly MIN_CELL_VOLTAGE = 2000;
+  static readonly MAX_CELL_VOLTAGE = 4500;
+
+  // Device Info keys decoded into typed fields; the first key is encoded
+  static readonly DEVICE_INFO_KEYS = {
+    type: ["type"],
+    id: ["id"],
+    mac: ["mac"],
+    firmwareVersion: ["fw", "firmware"],
+    hardwareVersion: ["hw", "hardware"],
+  } as const;
+  // Values accepted for the typed Device Info fields other than the MAC
+  static readonly DEVICE_INFO_PATTERN = /^[0-9A-Za-z._-]+$/;
+
   // Optional logger function
   private logger?: (message: string, ...args: unknown[]) => void;
 
+  // Whether frames are validated against their length byte and checksum
+  private strict: boolean;
+
   /**
    * Constructor
    * @param options Configuration options
    */
-  constructor(
-    options: { logger?: (message: string, ...args: unknown[]) => void } = {},
-  ) {
+  constructor(options: HMDeviceProtocolOptions = {}) {
     this.logger = options.logger;
+    this.strict = options.strict ?? false;
   }
 
   /**
@@ -237,33 +636,73 @@ export class HMDeviceProtocol {
    * @returns Whether the message is valid
    */
   public isValidMessage(message: Uint8Array): boolean {
-    // Check minimum length
+    return this.validateFrame(message) === null;
+  }
+
+  /**
+   * Validate the structure of a received frame
+   * @param message The received message
+   * @returns The first validation failure, or null if the frame is valid
+   */
+  public validateFrame(message: Uint8Array): FrameValidationError | null {
+    // Check minimum length (header + checksum)
     if (message.length < 5) {
-      // Header + checksum
-      return false;
+      return {
+        error: PARSE_ERROR.INVALID_LENGTH,
+        details: { offset: 1, expected: 5, actual: message.length },
+      };
     }
 
     // Check start byte
     if (message[0] !== HMDeviceProtocol.START_BYTE) {
-      return false;
+      return {
+        error: PARSE_ERROR.INVALID_START_BYTE,
+        details: {
+          offset: 0,
+          expected: HMDeviceProtocol.START_BYTE,
+          actual: message[0],
+        },
+      };
     }
 
     // Check length byte
     if (message[1] !== message.length) {
-      return false;
+      return {
+        error: PARSE_ERROR.INVALID_LENGTH,
+        details: { offset: 1, expected: message.length, actual: message[1] },
+      };
     }
 
     // Check identifier byte
     if (message[2] !== HMDeviceProtocol.IDENTIFIER_BYTE) {
-      return false;
+      return {
+        error: PARSE_ERROR.UNKNOWN_COMMAND,
+        details: {
+          offset: 2,
+          expected: HMDeviceProtocol.IDENTIFIER_BYTE,
+          actual: message[2],
+        },
+      };
     }
 
     // Check checksum (last byte)
-    const messageWithoutChecksum = message.slice(0, -1);
-    const calculatedChecksum = this.calculateChecksum(messageWithoutChecksum);
-    const receivedChecksum = message[message.length - 1];
+    const checksumOffset = message.length - 1;
+    const calculatedChecksum = this.calculateChecksum(
+      message.slice(0, checksumOffset),
+    );
+    const receivedChecksum = message[checksumOffset];
+    if (calculatedChecksum !== receivedChecksum) {
+      return {
+        error: PARSE_ERROR.CHECKSUM_MISMATCH,
+        details: {
+          offset: checksumOffset,
+          expected: calculatedChecksum,
+          actual: receivedChecksum,
+        },
+      };
+    }
 
-    return calculatedChecksum === receivedChecksum;
+    return null;
   }
 
   /**
@@ -272,17 +711,40 @@ export class HMDeviceProtocol {
    * @returns Whether the message is valid cell info
    */
   public isValidCellInfoMessage(message: DataView<ArrayBufferLike>): boolean {
-    // Check minimum length
-    if (message.byteLength < 10) {
-      return false;
-    }
-    // Convert DataView to string
-    const dataStr = this.bytesToString(
-      new Uint8Array(message.buffer, message.byteOffset, message.byteLength),
+    return this.cellInfoText(message) !== null;
+  }
+
+  /**
+   * Get the `soc_t1_t2_...` text of a cell info message, which arrives
+   * either bare or as the payload of a Cell Info (0x0F) frame
+   * @param message The message
+   * @returns The text, or null if the message is not cell info
+   * @private
+   */
+  private cellInfoText(message: DataView<ArrayBufferLike>): string | null {
+    const bytes = new Uint8Array(
+      message.buffer,
+      message.byteOffset,
+      message.byteLength,
     );
-    // Check for underscores
-    const underscoreCount = (dataStr.match(/_/g) || []).length;
-    return underscoreCount === 16 || underscoreCount === 3;
+    const framed =
+      bytes.length >= 5 &&
+      bytes[0] === HMDeviceProtocol.START_BYTE &&
+      bytes[2] === HMDeviceProtocol.IDENTIFIER_BYTE &&
+      bytes[3] === COMMANDS.CELL_INFO;
+    // The length byte and checksum of a frame may look like digits
+    const text = this.bytesToString(
+      framed ? bytes.subarray(4, bytes.length - 1) : bytes,
+    ).trim();
+
+    const fields = text.split("_");
+    const isNumber = (field: string) => /^-?\d+$/.test(field);
+    const cellCount = fields.length - HMDeviceProtocol.CELL_INFO_HEADER_FIELDS;
+    const knownLayout =
+      cellCount === 1 ||
+      (cellCount >= HMDeviceProtocol.MIN_CELL_COUNT &&
+        cellCount <= HMDeviceProtocol.MAX_CELL_COUNT);
+    return knownLayout && fields.every(isNumber) ? text : null;
   }
 
   /**
@@ -296,11 +758,33 @@ export class HMDeviceProtocol {
       message.byteOffset,
       message.byteLength,
     );
+    // In strict mode the length byte and checksum of every frame, including
+    // framed cell info, must match exactly
+    if (this.strict && rawData[0] === HMDeviceProtocol.START_BYTE) {
+      const validationError = this.validateFrame(rawData);
+      if (validationError) {
+        return {
+          type: "unknown",
+          rawData: rawData,
+          ...validationError,
+        };
+      }
+    }
+
     if (this.isValidCellInfoMessage(message)) {
+      const cellInfo = this.parseCellInfo(message);
+      // Implausible readings are not handed out as a cell info response
+      if (!cellInfo) {
+        return {
+          type: "unknown",
+          rawData: rawData,
+          error: PARSE_ERROR.INVALID_CELL_INFO,
+        };
+      }
       return {
         type: COMMANDS.CELL_INFO,
         rawData,
-        data: this.parseCellInfo(message),
+        data: cellInfo,
       };
     }
 
@@ -310,23 +794,29 @@ export class HMDeviceProtocol {
         type: "unknown",
         rawData: rawData,
         error: PARSE_ERROR.INVALID_START_BYTE,
+        details: {
+          offset: 0,
+          expected: HMDeviceProtocol.START_BYTE,
+          actual: header,
+        },
       };
     }
 
-    const length = message.getUint8(1); // TODO: Use for validation
     const identifier = message.getUint8(2);
     const command = message.getUint8(3);
-    const _checksum = message.getUint8(length - 1); // TODO: Add checksum validation
 
     // Validate the message structure
-    // if (length !== message.byteLength) return { type: "unknown", rawData: rawData, error: PARSE_ERROR.INVALID_LENGTH };
     if (identifier !== HMDeviceProtocol.IDENTIFIER_BYTE)
       return {
         type: "unknown",
         rawData: rawData,
         error: PARSE_ERROR.UNKNOWN_COMMAND,
+        details: {
+          offset: 2,
+          expected: HMDeviceProtocol.IDENTIFIER_BYTE,
+          actual: identifier,
+        },
       };
-    // if (checksum !== this.calculateChecksum(new Uint8Array(message.buffer, message.byteOffset, length - 1))) return { type: "unknown", rawData: rawData, error: PARSE_ERROR.CHECKSUM_MISMATCH };
 
     // Check if the command is valid
     if (command < 0 || command > 255)
@@ -337,18 +827,54 @@ export class HMDeviceProtocol {
       };
 
     switch (command) {
-      case COMMANDS.RUNTIME_INFO:
+      case COMMANDS.RUNTIME_INFO: {
+        const runtimeInfo = this.parseRuntimeInfo(message);
+        if (!runtimeInfo) {
+          return {
+            type: "unknown",
+            rawData: rawData,
+            error: PARSE_ERROR.INVALID_RUNTIME_INFO,
+          };
+        }
         return {
           type: COMMANDS.RUNTIME_INFO,
           rawData,
-          data: this.parseRuntimeInfo(message),
+          data: runtimeInfo,
         };
+      }
       case COMMANDS.DEVICE_INFO:
         return {
           type: COMMANDS.DEVICE_INFO,
           rawData,
           data: this.parseDeviceInfo(message),
         };
+      case COMMANDS.GET_TIMERS: {
+        const schedule = this.parseTimerSchedule(message);
+        if (!schedule) {
+          return {
+            type: "unknown",
+            rawData: rawData,
+            error: PARSE_ERROR.INVALID_TIMER_SCHEDULE,
+          };
+        }
+        return {
+          type: COMMANDS.GET_TIMERS,
+          rawData,
+          data: schedule,
+        };
+      }
+      case COMMANDS.WIFI_INFO:
+        return {
+          type: COMMANDS.WIFI_INFO,
+          rawData,
+          data: this.parseWifiInfo(message),
+        };
+      case COMMANDS.MODULE_INFO:
+        return {
+          type: COMMANDS.MODULE_INFO,
+          rawData,
+          data: this.parseModuleFirmwareInfo(message),
+        };
       default:
         return {
           type: "unknown",
@@ -359,44 +885,203 @@ export class HMDeviceProtocol {
   }
 
   /**
-   * Parse device information from response string
+   * Parse device information from a response frame. The payload is a list
+   * of `key=value` pairs; known keys are validated into typed fields, other
+   * keys go to `extra` and segments that cannot be used to `malformed`.
+   * @param dataView Complete response frame
    * @returns Parsed device info
-   * @param dataView
    */
-  private parseDeviceInfo(dataView: DataView<ArrayBufferLike>): DeviceInfo {
-    try {
-      // Convert DataView to string
-      // Clean the response (remove s<# prefix and control characters)
-      // Format is typically: s<length>#<command>key=value,key2=value2<checksum>
-      const responseBytes = new Uint8Array(
-        dataView.buffer,
-        dataView.byteOffset + 4,
-        dataView.byteLength - 5,
+  public parseDeviceInfo(dataView: DataView<ArrayBufferLike>): DeviceInfo {
+    const info: DeviceInfo = { extra: {}, malformed: [] };
+    const raw = this.payloadToString(dataView);
+    const fields = Object.entries(HMDeviceProtocol.DEVICE_INFO_KEYS) as Array<
+      [keyof typeof HMDeviceProtocol.DEVICE_INFO_KEYS, readonly string[]]
+    >;
+
+    for (const segment of raw.split(",")) {
+      if (!segment.trim()) continue;
+
+      // Values may contain "=", so only split at the first one
+      const separator = segment.indexOf("=");
+      const key = segment.slice(0, Math.max(separator, 0)).trim();
+      const value = segment.slice(separator + 1).trim();
+      if (separator < 0 || !key || !value) {
+        info.malformed.push(segment);
+        continue;
+      }
+
+      const field = fields.find(([, keys]) =>
+        keys.includes(key.toLowerCase()),
+      )?.[0];
+      if (!field) {
+        info.extra[key] = value;
+        continue;
+      }
+
+      const parsed =
+        field === "mac"
+          ? this.normalizeMacAddress(value)
+          : HMDeviceProtocol.DEVICE_INFO_PATTERN.test(value)
+            ? value
+            : null;
+      if (parsed === null) {
+        info.malformed.push(segment);
+      } else {
+        info[field] = parsed;
+      }
+    }
+
+    if (info.malformed.length > 0) {
+      this.log?.(
+        `Malformed device info segments: ${info.malformed.join(", ")}`,
       );
-      const responseStr = this.bytesToString(responseBytes);
-
-      // Parse into key-value pairs
-      const parts = responseStr.split(",");
-      const parsedInfo: DeviceInfo = {};
-
-      for (const part of parts) {
-        const keyValue = part.trim().split("=");
-        if (keyValue.length === 2) {
-          const key = keyValue[0].trim();
-          const value = keyValue[1].trim();
-          if (key && value) {
-            parsedInfo[key] = value;
-          }
+    }
+    return info;
+  }
+
+  /**
+   * Normalize a MAC address to colon-separated uppercase hex
+   * (e.g. "E8:8D:A6:00:00:01")
+   * @param mac MAC address with or without ":", "-" or "." separators
+   * @returns Normalized MAC address, or null if it is not a MAC address
+   */
+  public normalizeMacAddress(mac: string): string | null {
+    const digits = mac.trim().replace(/[:.-]/g, "");
+    if (!/^[0-9a-f]{12}$/i.test(digits)) {
+      return null;
+    }
+    return digits.toUpperCase().match(/../g)!.join(":");
+  }
+
+  /**
+   * Encode device information as a Device Info response payload
+   * (`key=value` pairs separated by commas). Unset fields are skipped and
+   * the MAC address is written as the device does, as 12 lowercase hex
+   * digits.
+   * @param info Device information
+   * @returns Payload bytes
+   */
+  public encodeDeviceInfo(info: Partial<DeviceInfo>): Uint8Array {
+    const entries: Array<[string, string | undefined]> = [];
+    for (const [field, keys] of Object.entries(
+      HMDeviceProtocol.DEVICE_INFO_KEYS,
+    ) as Array<
+      [keyof typeof HMDeviceProtocol.DEVICE_INFO_KEYS, readonly string[]]
+    >) {
+      let value = info[field];
+      if (field === "mac" && value !== undefined) {
+        const mac = this.normalizeMacAddress(value);
+        if (mac === null) {
+          throw new Error(`Invalid MAC address "${value}"`);
         }
+        value = mac.replace(/:/g, "").toLowerCase();
       }
+      entries.push([keys[0], value]);
+    }
+    entries.push(...Object.entries(info.extra ?? {}));
 
-      return parsedInfo;
-    } catch (error) {
-      this.log?.(
-        `Error parsing device info: ${error instanceof Error ? error.message : String(error)}`,
+    const pairs: string[] = [];
+    for (const [key, value] of entries) {
+      if (value === undefined) continue;
+      const invalid = [key, value].some(
+        (part) => part.trim() !== part || !part || part.includes(","),
       );
-      return {};
+      if (invalid || key.includes("=")) {
+        throw new Error(
+          `Invalid device info entry "${key}=${value}", keys and values must be non-empty and must not contain "," or surrounding whitespace, and keys must not contain "="`,
+        );
+      }
+      pairs.push(`${key}=${value}`);
     }
+    return this.stringToBytes(pairs.join(","));
+  }
+
+  /**
+   * Parse WiFi info from a response frame. The payload is either a list of
+   * key=value pairs, `ssid<.,.>signal`, or just the SSID.
+   * @param dataView Complete response frame
+   * @returns Parsed WiFi info
+   */
+  public parseWifiInfo(dataView: DataView<ArrayBufferLike>): WifiInfo {
+    const raw = this.payloadToString(dataView);
+    const values = this.parseKeyValueString(raw);
+
+    if (Object.keys(values).length > 0) {
+      const signal = parseInt(values.rssi ?? values.signal ?? "", 10);
+      return {
+        ssid: values.ssid,
+        signal: isNaN(signal) ? undefined : signal,
+        values,
+        raw,
+      };
+    }
+
+    const [ssid, signalStr] = raw.split("<.,.>");
+    const signal = parseInt(signalStr ?? "", 10);
+    return {
+      ssid: ssid || undefined,
+      signal: isNaN(signal) ? undefined : signal,
+      values,
+      raw,
+    };
+  }
+
+  /**
+   * Parse FC41D module firmware info from a response frame. The payload is
+   * either a list of key=value pairs or just the version string.
+   * @param dataView Complete response frame
+   * @returns Parsed module firmware info
+   */
+  public parseModuleFirmwareInfo(
+    dataView: DataView<ArrayBufferLike>,
+  ): ModuleFirmwareInfo {
+    const raw = this.payloadToString(dataView);
+    const values = this.parseKeyValueString(raw);
+
+    if (Object.keys(values).length > 0) {
+      return {
+        version: values.version ?? values.ver ?? values.fw,
+        values,
+        raw,
+      };
+    }
+
+    return { version: raw || undefined, values, raw };
+  }
+
+  /**
+   * Decode the payload of a response frame as trimmed text
+   * @param dataView Complete response frame
+   * @returns Payload text without control characters
+   * @private
+   */
+  private payloadToString(dataView: DataView<ArrayBufferLike>): string {
+    const payload = new Uint8Array(
+      dataView.buffer,
+      dataView.byteOffset + 4,
+      Math.max(0, dataView.byteLength - 5),
+    );
+    return this.bytesToString(payload.filter((byte) => byte >= 0x20)).trim();
+  }
+
+  /**
+   * Parse a comma separated list of key=value pairs
+   * @param str Text to parse
+   * @returns Parsed pairs, empty if the text contains none
+   * @private
+   */
+  private parseKeyValueString(str: string): Record<string, string> {
+    const values: Record<string, string> = {};
+    for (const part of str.split(",")) {
+      const separator = part.indexOf("=");
+      if (separator <= 0) continue;
+      const key = part.slice(0, separator).trim();
+      const value = part.slice(separator + 1).trim();
+      if (key) {
+        values[key] = value;
+      }
+    }
+    return values;
   }
 
   /**
@@ -431,10 +1116,12 @@ export class HMDeviceProtocol {
         devVersion: dataView.getUint8(12),
         chargeMode: {
           loadFirst: !!(dataView.getUint8(13) & 0x01),
+          reserved: dataView.getUint8(13) & 0xfe,
         },
         dischargeSetting: {
           out1Enable: !!(dataView.getUint8(14) & 0x01),
           out2Enable: !!(dataView.getUint8(14) & 0x02),
+          reserved: dataView.getUint8(14) & 0xfc,
         },
         wifiMqttState: {
           wifiConnected: !!(dataView.getUint8(15) & 0x01),
@@ -458,25 +1145,40 @@ export class HMDeviceProtocol {
         temperatureLow: dataView.getInt16(33, true),
         temperatureHigh: dataView.getInt16(35, true),
         reserved1: dataView.getUint16(37, true),
+
+        // Decoded enum fields
+        out1State: this.decodeEnum(OUTPUT_STATE_LABELS, dataView.getUint8(16)),
+        out2State: this.decodeEnum(OUTPUT_STATE_LABELS, dataView.getUint8(17)),
+        scene: this.decodeEnum(DEVICE_SCENE_LABELS, dataView.getUint8(21)),
+        extern1State: this.decodeEnum(
+          EXTERNAL_CONNECTION_LABELS,
+          dataView.getUint8(28),
+        ),
+        extern2State: this.decodeEnum(
+          EXTERNAL_CONNECTION_LABELS,
+          dataView.getUint8(29),
+        ),
+        region: this.decodeEnum(DEVICE_REGION_LABELS, dataView.getUint8(30)),
       };
 
-      // Check for extended data fields
-      if (dataView.byteLength > 39) {
+      // Check for extended data fields, which end before the checksum
+      const dataEnd = dataView.byteLength - 1;
+      if (dataEnd > 39) {
         runtimeData.deviceSubVersion = dataView.getUint8(39);
 
-        if (dataView.byteLength >= 40 + 4) {
+        if (dataEnd >= 40 + 4) {
           runtimeData.dailyTotalBatteryCharge = dataView.getUint32(40, true);
         }
 
-        if (dataView.byteLength >= 44 + 4) {
+        if (dataEnd >= 44 + 4) {
           runtimeData.dailyTotalBatteryDischarge = dataView.getUint32(44, true);
         }
 
-        if (dataView.byteLength >= 48 + 4) {
+        if (dataEnd >= 48 + 4) {
           runtimeData.dailyTotalLoadCharge = dataView.getUint32(48, true);
         }
 
-        if (dataView.byteLength >= 52 + 4) {
+        if (dataEnd >= 52 + 4) {
           runtimeData.dailyTotalLoadDischarge = dataView.getUint32(52, true);
         }
       }
@@ -491,53 +1193,543 @@ export class HMDeviceProtocol {
   }
 
   /**
-   * Parse cell info data from the response string
-   * @param responseStr Response string
-   * @returns Parsed cell info
+   * Encode runtime info as a Runtime Info response payload. The extended
+   * fields are appended up to the last one that is set; daily totals before
+   * it that are not set are encoded as 0.
+   * @param info Runtime info (the header and decoded enum fields are ignored)
+   * @returns Payload bytes
    */
-  public parseCellInfo(message: DataView<ArrayBufferLike>): CellInfo | null {
-    const responseStr = this.bytesToString(message);
-    try {
-      // Clean the response data (remove any headers)
-      // Format is typically: s<length>#<command>10_24_25_3162_3161_3156_...<checksum>
-      const dataMatch = responseStr.match(/[0-9_]+/);
-      if (!dataMatch) {
-        this.log?.("Could not find cell info data pattern in response");
-        return null;
+  public encodeRuntimeInfo(info: RuntimeInfo): Uint8Array {
+    const totals = [
+      info.dailyTotalBatteryCharge,
+      info.dailyTotalBatteryDischarge,
+      info.dailyTotalLoadCharge,
+      info.dailyTotalLoadDischarge,
+    ];
+    let totalCount = totals.length;
+    while (totalCount > 0 && totals[totalCount - 1] === undefined) {
+      totalCount--;
+    }
+    const extended = info.deviceSubVersion !== undefined || totalCount > 0;
+
+    const ranges: Array<[string, number, number, number]> = [
+      ["in1Power", info.in1Power, 0, 0xffff],
+      ["in2Power", info.in2Power, 0, 0xffff],
+      ["soc", info.soc, 0, 0xffff],
+      ["devVersion", info.devVersion, 0, 0xff],
+      ["out1Active", info.out1Active, 0, 0xff],
+      ["out2Active", info.out2Active, 0, 0xff],
+      ["dod", info.dod, 0, 0xff],
+      ["dischargeThreshold", info.dischargeThreshold, 0, 0xffff],
+      ["deviceScene", info.deviceScene, 0, 0xff],
+      ["remainingCapacity", info.remainingCapacity, 0, 0xffff],
+      ["out1Power", info.out1Power, 0, 0xffff],
+      ["out2Power", info.out2Power, 0, 0xffff],
+      ["extern1Connected", info.extern1Connected, 0, 0xff],
+      ["extern2Connected", info.extern2Connected, 0, 0xff],
+      ["deviceRegion", info.deviceRegion, 0, 0xff],
+      ["hour", info.time.hour, 0, 0xff],
+      ["minute", info.time.minute, 0, 0xff],
+      ["temperatureLow", info.temperatureLow, -0x8000, 0x7fff],
+      ["temperatureHigh", info.temperatureHigh, -0x8000, 0x7fff],
+      ["reserved1", info.reserved1, 0, 0xffff],
+      ["deviceSubVersion", info.deviceSubVersion ?? 0, 0, 0xff],
+      ...totals.map((total, index): [string, number, number, number] => [
+        `daily total ${index + 1}`,
+        total ?? 0,
+        0,
+        0xffffffff,
+      ]),
+    ];
+    for (const [field, value, min, max] of ranges) {
+      if (!Number.isInteger(value) || value < min || value > max) {
+        throw new Error(
+          `Invalid ${field} ${value}, expected an integer between ${min} and ${max}`,
+        );
       }
+    }
+
+    const size = extended
+      ? HMDeviceProtocol.RUNTIME_INFO_BASE_SIZE + 1 + totalCount * 4
+      : HMDeviceProtocol.RUNTIME_INFO_BASE_SIZE;
+    // Write at the frame offsets used by parseRuntimeInfo, then drop the header
+    const frame = new Uint8Array(4 + size);
+    const view = new DataView(frame.buffer);
+    const inputBits = (input: RuntimeInfo["in1Active"]) =>
+      (input.active ? 0x01 : 0) | (input.transparent ? 0x02 : 0);
 
-      const cellInfoStr = dataMatch[0];
+    view.setUint8(4, inputBits(info.in1Active));
+    view.setUint8(5, inputBits(info.in2Active));
+    view.setUint16(6, info.in1Power, true);
+    view.setUint16(8, info.in2Power, true);
+    view.setUint16(10, info.soc, true);
+    view.setUint8(12, info.devVersion);
+    view.setUint8(13, this.encodeChargeMode(info.chargeMode));
+    view.setUint8(14, this.encodeDischargeSetting(info.dischargeSetting));
+    view.setUint8(
+      15,
+      (info.wifiMqttState.wifiConnected ? 0x01 : 0) |
+        (info.wifiMqttState.mqttConnected ? 0x02 : 0),
+    );
+    view.setUint8(16, info.out1Active);
+    view.setUint8(17, info.out2Active);
+    view.setUint8(18, info.dod);
+    view.setUint16(19, info.dischargeThreshold, true);
+    view.setUint8(21, info.deviceScene);
+    view.setUint16(22, info.remainingCapacity, true);
+    view.setUint16(24, info.out1Power, true);
+    view.setUint16(26, info.out2Power, true);
+    view.setUint8(28, info.extern1Connected);
+    view.setUint8(29, info.extern2Connected);
+    view.setUint8(30, info.deviceRegion);
+    view.setUint8(31, info.time.hour);
+    view.setUint8(32, info.time.minute);
+    view.setInt16(33, info.temperatureLow, true);
+    view.setInt16(35, info.temperatureHigh, true);
+    view.setUint16(37, info.reserved1, true);
 
-      // Split the string by underscore
-      const parts = cellInfoStr.split("_");
-      if (parts.length < 3) {
-        this.log?.("Cell info data has too few parts");
-        return null;
+    if (extended) {
+      view.setUint8(39, info.deviceSubVersion ?? 0);
+      for (let index = 0; index < totalCount; index++) {
+        view.setUint32(40 + index * 4, totals[index] ?? 0, true);
       }
+    }
 
-      // Parse according to the format
-      const cellInfo: CellInfo = {
-        soc: parseInt(parts[0], 10),
-        temperature1: parseInt(parts[1], 10),
-        temperature2: parseInt(parts[2], 10),
-        cellVoltages: [],
-      };
+    return frame.slice(4);
+  }
 
-      // Parse cell voltages (starting from index 3)
-      for (let i = 3; i < parts.length; i++) {
-        const voltage = parseInt(parts[i], 10);
-        if (!isNaN(voltage)) {
-          cellInfo.cellVoltages.push(voltage);
-        }
+  /**
+   * Decode an enum byte, keeping values that have no label as reported
+   * @param labels Labels of the enum members
+   * @param value Raw value
+   * @returns Decoded value with its label
+   */
+  public decodeEnum<E extends number>(
+    labels: Record<E, string>,
+    value: number,
+  ): EnumValue<E> {
+    const label: string | undefined = labels[value as E];
+    return {
+      value: value as E,
+      label:
+        label ??
+        `Unknown (0x${value.toString(16).toUpperCase().padStart(2, "0")})`,
+      known: label !== undefined,
+    };
+  }
+
+  /**
+   * Work out which commands and runtime fields a device supports. There is
+   * no documented mapping from firmware versions to features, so support is
+   * taken from the responses the device sent: the runtime info tail it
+   * reported and the size of its timer packet. Every command is assumed to be
+   * supported.
+   * @param device Device type, firmware versions and observed responses
+   * @returns Supported commands and fields
+   */
+  public resolveCapabilities(device: DeviceIdentity): DeviceCapabilities {
+    const model = device.type?.split("-")[0].trim().toUpperCase() || undefined;
+
+    return {
+      model,
+      knownModel:
+        model !== undefined && HMDeviceProtocol.B2500_MODELS.includes(model),
+      firmwareVersion: device.devVersion,
+      commands: Object.values(COMMANDS),
+      timerCount: device.timerCount,
+      deviceSubVersion: device.deviceSubVersion !== undefined,
+      dailyTotals: device.dailyTotals === true,
+    };
+  }
+
+  /**
+   * Convert runtime info to plain units: the SOC from per mille to percent,
+   * temperatures from tenths of a degree to °C and daily totals from tenths
+   * of a Wh to Wh
+   * @param info Runtime info as decoded
+   * @returns Runtime info with measurements
+   */
+  public toNormalizedRuntime(info: RuntimeInfo): NormalizedRuntimeInfo {
+    const percent = (value: number): Measurement<"%"> => ({
+      value,
+      unit: "%",
+    });
+    const watts = (value: number): Measurement<"W"> => ({ value, unit: "W" });
+    const wattHours = (value: number): Measurement<"Wh"> => ({
+      value,
+      unit: "Wh",
+    });
+    const celsius = (value: number): Measurement<"°C"> => ({
+      value,
+      unit: "°C",
+    });
+
+    const {
+      dailyTotalBatteryCharge,
+      dailyTotalBatteryDischarge,
+      dailyTotalLoadCharge,
+      dailyTotalLoadDischarge,
+      ...rest
+    } = info;
+    const normalized: NormalizedRuntimeInfo = {
+      ...rest,
+      soc: percent(info.soc / 10),
+      in1Power: watts(info.in1Power),
+      in2Power: watts(info.in2Power),
+      dod: percent(info.dod),
+      dischargeThreshold: watts(info.dischargeThreshold),
+      remainingCapacity: wattHours(info.remainingCapacity),
+      out1Power: watts(info.out1Power),
+      out2Power: watts(info.out2Power),
+      temperatureLow: celsius(info.temperatureLow / 10),
+      temperatureHigh: celsius(info.temperatureHigh / 10),
+    };
+
+    // Only add the daily totals the device reported
+    const dailyTotals = {
+      dailyTotalBatteryCharge,
+      dailyTotalBatteryDischarge,
+      dailyTotalLoadCharge,
+      dailyTotalLoadDischarge,
+    };
+    for (const [key, value] of Object.entries(dailyTotals)) {
+      if (value !== undefined) {
+        normalized[key as keyof typeof dailyTotals] = wattHours(value / 10);
       }
+    }
 
-      return cellInfo;
-    } catch (error) {
+    return normalized;
+  }
+
+  /**
+   * Parse a Get Timers response (TimerInfoPacket3 or TimerInfoPacket)
+   * @param dataView Complete response frame
+   * @returns Parsed timer schedule
+   */
+  public parseTimerSchedule(
+    dataView: DataView<ArrayBufferLike>,
+  ): TimerSchedule | null {
+    // Payload starts after the 4 byte header and excludes the checksum
+    const payloadLength = dataView.byteLength - 5;
+    if (payloadLength < HMDeviceProtocol.TIMER_PACKET3_SIZE) {
       this.log?.(
-        `Error parsing cell info: ${error instanceof Error ? error.message : String(error)}`,
+        `Timer response too short: ${payloadLength} bytes, expected at least ${HMDeviceProtocol.TIMER_PACKET3_SIZE}`,
       );
       return null;
     }
+
+    const readTimer = (offset: number): TimerInfo => ({
+      enabled: dataView.getUint8(offset) !== 0,
+      start: {
+        hour: dataView.getUint8(offset + 1),
+        minute: dataView.getUint8(offset + 2),
+      },
+      end: {
+        hour: dataView.getUint8(offset + 3),
+        minute: dataView.getUint8(offset + 4),
+      },
+      outputPower: dataView.getUint16(offset + 5, true),
+    });
+
+    const payloadOffset = 4;
+    const timers: TimerInfo[] = [];
+    let offset = payloadOffset + 1;
+    for (let i = 0; i < HMDeviceProtocol.BASE_TIMER_COUNT; i++) {
+      timers.push(readTimer(offset));
+      offset += HMDeviceProtocol.TIMER_INFO_SIZE;
+    }
+
+    const smartMeter: SmartMeterInfo = {
+      connected: dataView.getUint8(offset) !== 0,
+      power: dataView.getInt16(offset + 1, true),
+      reserved: Array.from(
+        new Uint8Array(
+          dataView.buffer,
+          dataView.byteOffset + offset + 3,
+          HMDeviceProtocol.SMART_METER_INFO_SIZE - 3,
+        ),
+      ),
+    };
+    offset += HMDeviceProtocol.SMART_METER_INFO_SIZE;
+
+    // Newer firmware appends two additional timers after a reserved block
+    if (payloadLength >= HMDeviceProtocol.TIMER_PACKET_SIZE) {
+      offset += HMDeviceProtocol.TIMER_RESERVED_SIZE;
+      for (
+        let i = HMDeviceProtocol.BASE_TIMER_COUNT;
+        i < HMDeviceProtocol.MAX_TIMER_COUNT;
+        i++
+      ) {
+        timers.push(readTimer(offset));
+        offset += HMDeviceProtocol.TIMER_INFO_SIZE;
+      }
+    }
+
+    return {
+      adaptiveMode: dataView.getUint8(payloadOffset) !== 0,
+      timers,
+      smartMeter,
+    };
+  }
+
+  /**
+   * Encode a timer schedule as a Get Timers response payload. Three timers
+   * produce a TimerInfoPacket3, five timers a TimerInfoPacket.
+   * @param schedule Timer schedule
+   * @returns Payload bytes
+   */
+  public encodeTimerSchedule(schedule: TimerSchedule): Uint8Array {
+    const timerCount = schedule.timers.length;
+    if (
+      timerCount !== HMDeviceProtocol.BASE_TIMER_COUNT &&
+      timerCount !== HMDeviceProtocol.MAX_TIMER_COUNT
+    ) {
+      throw new Error(
+        `Timer schedule must contain ${HMDeviceProtocol.BASE_TIMER_COUNT} or ${HMDeviceProtocol.MAX_TIMER_COUNT} timers, got ${timerCount}`,
+      );
+    }
+
+    const size =
+      timerCount === HMDeviceProtocol.MAX_TIMER_COUNT
+        ? HMDeviceProtocol.TIMER_PACKET_SIZE
+        : HMDeviceProtocol.TIMER_PACKET3_SIZE;
+    const payload = new Uint8Array(size);
+    const view = new DataView(payload.buffer);
+
+    payload[0] = schedule.adaptiveMode ? 1 : 0;
+    let offset = 1;
+    for (const timer of schedule.timers.slice(
+      0,
+      HMDeviceProtocol.BASE_TIMER_COUNT,
+    )) {
+      payload.set(this.encodeTimerInfo(timer), offset);
+      offset += HMDeviceProtocol.TIMER_INFO_SIZE;
+    }
+
+    payload[offset] = schedule.smartMeter.connected ? 1 : 0;
+    view.setInt16(offset + 1, schedule.smartMeter.power, true);
+    payload.set(
+      schedule.smartMeter.reserved.slice(
+        0,
+        HMDeviceProtocol.SMART_METER_INFO_SIZE - 3,
+      ),
+      offset + 3,
+    );
+    offset += HMDeviceProtocol.SMART_METER_INFO_SIZE;
+
+    if (timerCount === HMDeviceProtocol.MAX_TIMER_COUNT) {
+      offset += HMDeviceProtocol.TIMER_RESERVED_SIZE;
+      for (const timer of schedule.timers.slice(
+        HMDeviceProtocol.BASE_TIMER_COUNT,
+      )) {
+        payload.set(this.encodeTimerInfo(timer), offset);
+        offset += HMDeviceProtocol.TIMER_INFO_SIZE;
+      }
+    }
+
+    return payload;
+  }
+
+  /**
+   * Create a Set Timers command payload
+   * @param timers Timers to configure (1-5)
+   * @returns Payload bytes
+   */
+  public createSetTimersPayload(timers: TimerInfo[]): Uint8Array {
+    if (
+      timers.length === 0 ||
+      timers.length > HMDeviceProtocol.MAX_TIMER_COUNT
+    ) {
+      throw new Error(
+        `Between 1 and ${HMDeviceProtocol.MAX_TIMER_COUNT} timers are required, got ${timers.length}`,
+      );
+    }
+
+    const payload = new Uint8Array(
+      timers.length * HMDeviceProtocol.TIMER_INFO_SIZE,
+    );
+    timers.forEach((timer, index) => {
+      payload.set(
+        this.encodeTimerInfo(timer),
+        index * HMDeviceProtocol.TIMER_INFO_SIZE,
+      );
+    });
+    return payload;
+  }
+
+  /**
+   * Encode a single TimerInfo structure
+   * @param timer Timer to encode
+   * @returns 7 byte TimerInfo
+   * @private
+   */
+  private encodeTimerInfo(timer: TimerInfo): Uint8Array {
+    const { start, end, outputPower } = timer;
+    for (const time of [start, end]) {
+      if (
+        !Number.isInteger(time.hour) ||
+        time.hour < 0 ||
+        time.hour > 23 ||
+        !Number.isInteger(time.minute) ||
+        time.minute < 0 ||
+        time.minute > 59
+      ) {
+        throw new Error(
+          `Invalid timer time ${time.hour}:${time.minute}, expected 0-23:0-59`,
+        );
+      }
+    }
+    if (
+      !Number.isInteger(outputPower) ||
+      outputPower < 0 ||
+      outputPower > 0xffff
+    ) {
+      throw new Error(
+        `Timer output power must be an integer between 0 and 65535, got ${outputPower}`,
+      );
+    }
+
+    return new Uint8Array([
+      timer.enabled ? 1 : 0,
+      start.hour,
+      start.minute,
+      end.hour,
+      end.minute,
+      outputPower & 0xff,
+      (outputPower >> 8) & 0xff,
+    ]);
+  }
+
+  /**
+   * Parse cell info in the summary (`soc_t1_t2_voltage`) or per-cell
+   * (`soc_t1_t2_v1_..._vN`) format. Payloads with values outside plausible
+   * ranges are rejected, as they are usually misread frames.
+   * @param message Bare cell info text or Cell Info (0x0F) frame
+   * @returns Parsed cell info, or null if the payload is not valid cell info
+   */
+  public parseCellInfo(message: DataView<ArrayBufferLike>): CellInfo | null {
+    const text = this.cellInfoText(message);
+    if (text === null) {
+      this.log?.("Could not find cell info data pattern in response");
+      return null;
+    }
+
+    const [soc, temperature1, temperature2, ...voltages] = text
+      .split("_")
+      .map((field) => parseInt(field, 10));
+    const summary = voltages.length === 1;
+    const cellInfo: CellInfo = {
+      soc,
+      temperature1,
+      temperature2,
+      cellVoltages: summary ? [] : voltages,
+      format: summary ? CellInfoFormat.Summary : CellInfoFormat.PerCell,
+      cellCount: summary ? 0 : voltages.length,
+    };
+    if (summary) {
+      cellInfo.voltage = voltages[0];
+    }
+
+    const problem = this.checkCellInfo(cellInfo);
+    if (problem) {
+      this.log?.(`Discarding implausible cell info "${text}": ${problem}`);
+      return null;
+    }
+    return cellInfo;
+  }
+
+  /**
+   * Check cell info values against their plausible ranges
+   * @param info Cell info
+   * @returns Description of the first implausible value, or null
+   * @private
+   */
+  private checkCellInfo(info: CellInfo): string | null {
+    const ranges: Array<[string, number, number, number]> = [
+      ["soc", info.soc, 0, 100],
+      [
+        "temperature1",
+        info.temperature1,
+        HMDeviceProtocol.MIN_CELL_TEMPERATURE,
+        HMDeviceProtocol.MAX_CELL_TEMPERATURE,
+      ],
+      [
+        "temperature2",
+        info.temperature2,
+        HMDeviceProtocol.MIN_CELL_TEMPERATURE,
+        HMDeviceProtocol.MAX_CELL_TEMPERATURE,
+      ],
+      ...(info.format === CellInfoFormat.Summary
+        ? [info.voltage ?? NaN]
+        : info.cellVoltages
+      ).map((voltage): [string, number, number, number] => [
+        "voltage",
+        voltage,
+        HMDeviceProtocol.MIN_CELL_VOLTAGE,
+        HMDeviceProtocol.MAX_CELL_VOLTAGE,
+      ]),
+    ];
+    for (const [field, value, min, max] of ranges) {
+      if (!Number.isInteger(value) || value < min || value > max) {
+        return `${field} ${value}, expected an integer between ${min} and ${max}`;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Encode cell info as the `soc_t1_t2_voltage` or `soc_t1_t2_v1_..._vN`
+   * text the device answers Cell Info with
+   * @param info Cell info
+   * @returns Payload bytes
+   */
+  public encodeCellInfo(info: CellInfo): Uint8Array {
+    const summary = info.format === CellInfoFormat.Summary;
+    const count = info.cellVoltages.length;
+    if (
+      !summary &&
+      (count < HMDeviceProtocol.MIN_CELL_COUNT ||
+        count > HMDeviceProtocol.MAX_CELL_COUNT)
+    ) {
+      throw new Error(
+        `Invalid cell count ${count}, expected ${HMDeviceProtocol.MIN_CELL_COUNT} to ${HMDeviceProtocol.MAX_CELL_COUNT} cells`,
+      );
+    }
+    const problem = this.checkCellInfo(info);
+    if (problem) {
+      throw new Error(`Invalid cell info ${problem}`);
+    }
+
+    const values = [
+      info.soc,
+      info.temperature1,
+      info.temperature2,
+      ...(summary ? [info.voltage] : info.cellVoltages),
+    ];
+    return this.stringToBytes(values.join("_"));
+  }
+
+  /**
+   * Convert cell info to plain units, with the cell voltages in volts
+   * @param info Cell info as decoded
+   * @returns Cell info with measurements
+   */
+  public toNormalizedCellInfo(info: CellInfo): NormalizedCellInfo {
+    const normalized: NormalizedCellInfo = {
+      soc: { value: info.soc, unit: "%" },
+      temperature1: { value: info.temperature1, unit: "°C" },
+      temperature2: { value: info.temperature2, unit: "°C" },
+      cellVoltages: info.cellVoltages.map((voltage) => ({
+        value: voltage / 1000,
+        unit: "V",
+      })),
+      format: info.format,
+      cellCount: info.cellCount,
+    };
+    if (info.voltage !== undefined) {
+      normalized.voltage = { value: info.voltage / 1000, unit: "V" };
+    }
+    return normalized;
   }
 
   /**
@@ -556,6 +1748,144 @@ export class HMDeviceProtocol {
     return this.stringToBytes(configStr);
   }
 
+  /**
+   * Serialize a ChargeMode bitfield back into its byte representation
+   * @param chargeMode ChargeMode as decoded from the runtime info
+   * @returns ChargeMode byte with reserved bits preserved
+   */
+  public encodeChargeMode(chargeMode: RuntimeInfo["chargeMode"]): number {
+    return (
+      ((chargeMode.reserved ?? 0) & 0xfe) | (chargeMode.loadFirst ? 0x01 : 0)
+    );
+  }
+
+  /**
+   * Serialize a DisChargeSetting bitfield back into its byte representation
+   * @param setting DisChargeSetting as decoded from the runtime info
+   * @returns DisChargeSetting byte with reserved bits preserved
+   */
+  public encodeDischargeSetting(
+    setting: RuntimeInfo["dischargeSetting"],
+  ): number {
+    return (
+      ((setting.reserved ?? 0) & 0xfc) |
+      (setting.out1Enable ? 0x01 : 0) |
+      (setting.out2Enable ? 0x02 : 0)
+    );
+  }
+
+  /**
+   * Create a Set Region command payload
+   * @param region Region to switch to (EU, China or Non-EU)
+   * @returns Payload bytes
+   */
+  public createRegionPayload(region: DeviceRegion): Uint8Array {
+    if (
+      region !== DeviceRegion.EU &&
+      region !== DeviceRegion.China &&
+      region !== DeviceRegion.NonEU
+    ) {
+      throw new Error(
+        `Invalid region ${region}, expected EU (0), China (1) or Non-EU (2)`,
+      );
+    }
+
+    return new Uint8Array([region]);
+  }
+
+  /**
+   * Create a depth of discharge command payload
+   * @param percent Depth of discharge in percent (0-100)
+   * @returns Payload bytes
+   */
+  public createDepthOfDischargePayload(percent: number): Uint8Array {
+    if (!Number.isInteger(percent) || percent < 0 || percent > 100) {
+      throw new Error(
+        `Depth of discharge must be an integer between 0 and 100, got ${percent}`,
+      );
+    }
+
+    return new Uint8Array([percent]);
+  }
+
+  /**
+   * Create a discharge threshold command payload
+   * @param watts Discharge threshold in watts (uint16)
+   * @returns Payload bytes (little-endian)
+   */
+  public createDischargeThresholdPayload(watts: number): Uint8Array {
+    if (!Number.isInteger(watts) || watts < 0 || watts > 0xffff) {
+      throw new Error(
+        `Discharge threshold must be an integer between 0 and 65535, got ${watts}`,
+      );
+    }
+
+    return new Uint8Array([watts & 0xff, (watts >> 8) & 0xff]);
+  }
+
+  /**
+   * Convert a point in time to the device's wall-clock representation
+   * @param date Point in time
+   * @param timeZone IANA time zone (defaults to the host time zone)
+   * @returns Date and time fields in the given time zone
+   */
+  public toDeviceDateTime(date: Date, timeZone?: string): DeviceDateTime {
+    const parts = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    }).formatToParts(date);
+    const field = (type: Intl.DateTimeFormatPartTypes) =>
+      Number(parts.find((part) => part.type === type)?.value);
+
+    return {
+      year: field("year"),
+      month: field("month"),
+      day: field("day"),
+      hour: field("hour"),
+      minute: field("minute"),
+      second: field("second"),
+    };
+  }
+
+  /**
+   * Create a Set Date/Time command payload (DateTimePacket)
+   * @param dateTime Wall-clock date and time
+   * @returns Payload bytes
+   */
+  public createDateTimePayload(dateTime: DeviceDateTime): Uint8Array {
+    const ranges: Array<[keyof DeviceDateTime, number, number]> = [
+      ["year", 2000, 2255],
+      ["month", 1, 12],
+      ["day", 1, 31],
+      ["hour", 0, 23],
+      ["minute", 0, 59],
+      ["second", 0, 59],
+    ];
+    for (const [field, min, max] of ranges) {
+      const value = dateTime[field];
+      if (!Number.isInteger(value) || value < min || value > max) {
+        throw new Error(
+          `Invalid ${field} ${value}, expected an integer between ${min} and ${max}`,
+        );
+      }
+    }
+
+    return new Uint8Array([
+      dateTime.year - 2000,
+      dateTime.month,
+      dateTime.day,
+      dateTime.hour,
+      dateTime.minute,
+      dateTime.second,
+    ]);
+  }
+
   /**
    * Create an MQTT configuration command payload
    * @param config MQTT configuration
@@ -8,11 +8,25 @@
 // Export the protocol class
 export { default as HMDeviceProtocol } from "./HMDeviceProtocol.js";
 
+// Export the stream reassembler
+export { FrameAssembler } from "./FrameAssembler.js";
+export type { FrameAssemblerOptions } from "./FrameAssembler.js";
+
 // Export constants
 export {
   COMMAND_TYPES,
   START_BYTE,
   IDENTIFIER_BYTE,
+  PARSE_ERROR,
+  DeviceRegion,
+  DeviceScene,
+  OutputState,
+  ExternalConnection,
+  DEVICE_REGION_LABELS,
+  DEVICE_SCENE_LABELS,
+  OUTPUT_STATE_LABELS,
+  EXTERNAL_CONNECTION_LABELS,
+  CellInfoFormat,
 } from "./HMDeviceProtocol.js";
 
 // Export types
@@ -23,3 +37,22 @@ export type {
   WifiMqttState,
   MQTTConfig,
 } from "./types.js";
+export type {
+  HMDeviceProtocolOptions,
+  ParsedMessage,
+  ParseErrorDetails,
+  FrameValidationError,
+  TimerInfo,
+  SmartMeterInfo,
+  TimerSchedule,
+  DeviceDateTime,
+  WifiInfo,
+  ModuleFirmwareInfo,
+  MeasurementUnit,
+  Measurement,
+  NormalizedRuntimeInfo,
+  NormalizedCellInfo,
+  EnumValue,
+  DeviceIdentity,
+  DeviceCapabilities,
+} from "./HMDeviceProtocol.js";
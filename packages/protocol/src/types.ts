@@ -1,6 +1,14 @@
 /**
  * Type definitions for HM Device Protocol
  */
+import type {
+  CellInfoFormat,
+  DeviceRegion,
+  DeviceScene,
+  EnumValue,
+  ExternalConnection,
+  OutputState,
+} from "./HMDeviceProtocol.js";
 
 /**
  * Device information structure
@@ -10,10 +18,16 @@ export interface DeviceInfo {
   type?: string;
   /** Device unique identifier */
   id?: string;
-  /** Device MAC address */
+  /** Device MAC address, colon-separated uppercase (e.g. "E8:8D:A6:00:00:01") */
   mac?: string;
-  /** Any other key-value pairs from the device */
-  [key: string]: string | undefined;
+  /** Firmware version */
+  firmwareVersion?: string;
+  /** Hardware version */
+  hardwareVersion?: string;
+  /** Key-value pairs the protocol does not define, as reported */
+  extra: Record<string, string>;
+  /** Segments that are not key-value pairs or hold an invalid value */
+  malformed: string[];
 }
 
 /**
@@ -26,8 +40,14 @@ export interface CellInfo {
   temperature1: number;
   /** Second temperature sensor reading (°C) */
   temperature2: number;
-  /** List of all cell voltages in millivolts */
+  /** List of all cell voltages in millivolts, empty in the summary format */
   cellVoltages: number[];
+  /** Payload layout the info was decoded from */
+  format: CellInfoFormat;
+  /** Number of cells reported, 0 in the summary format */
+  cellCount: number;
+  /** Voltage reported by the summary format in millivolts */
+  voltage?: number;
 }
 
 /**
@@ -83,6 +103,8 @@ export interface RuntimeInfo {
   chargeMode: {
     /** Whether load first mode is enabled */
     loadFirst: boolean;
+    /** Remaining bits of the ChargeMode byte, preserved when re-encoding */
+    reserved?: number;
   };
   /** Discharge settings */
   dischargeSetting: {
@@ -90,6 +112,8 @@ export interface RuntimeInfo {
     out1Enable: boolean;
     /** Whether output 2 is enabled */
     out2Enable: boolean;
+    /** Remaining bits of the DisChargeSetting byte, preserved when re-encoding */
+    reserved?: number;
   };
   /** WiFi and MQTT state */
   wifiMqttState: WifiMqttState;
@@ -129,6 +153,20 @@ export interface RuntimeInfo {
   /** Reserved data field */
   reserved1: number;
 
+  // Decoded enum fields
+  /** Output 1 state decoded from out1Active */
+  out1State: EnumValue<OutputState>;
+  /** Output 2 state decoded from out2Active */
+  out2State: EnumValue<OutputState>;
+  /** Scene decoded from deviceScene */
+  scene: EnumValue<DeviceScene>;
+  /** External 1 state decoded from extern1Connected */
+  extern1State: EnumValue<ExternalConnection>;
+  /** External 2 state decoded from extern2Connected */
+  extern2State: EnumValue<ExternalConnection>;
+  /** Region decoded from deviceRegion */
+  region: EnumValue<DeviceRegion>;
+
   // Extended fields (optional)
   /** Daily total battery charge (Wh * 10) */
   dailyTotalBatteryCharge?: number;
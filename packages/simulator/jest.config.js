@@ -0,0 +1,21 @@
+export default {
+  displayName: 'simulator',
+  preset: '../../jest.preset.js',
+  extensionsToTreatAsEsm: ['.ts'],
+  testMatch: ['<rootDir>/src/**/*.spec.ts'],
+  transform: {
+    '^.+\\.[tj]s$': ['ts-jest', { 
+      tsconfig: '<rootDir>/tsconfig.json',
+      useESM: true
+    }]
+  },
+  moduleFileExtensions: ['ts', 'js', 'html'],
+  coverageDirectory: '../../coverage/packages/simulator',
+  moduleNameMapper: {
+    '^@tomquist/hmjs-protocol$': '<rootDir>/../protocol/src/index.ts',
+    '^@tomquist/hmjs-protocol/(.*)$': '<rootDir>/../protocol/src/$1',
+    '^@tomquist/hmjs-ble$': '<rootDir>/../ble/src/index.ts',
+    '^@tomquist/hmjs-ble/testing$': '<rootDir>/../ble/src/testing/index.ts',
+    '^(\\.{1,2}/.*)\\.js$': '$1'
+  },
+};
@@ -0,0 +1,149 @@
+import { BLEDeviceManager, MemoryDeviceStore } from "@tomquist/hmjs-ble";
+import { B2500Simulator } from "./B2500Simulator.js";
+
+describe("B2500Simulator", () => {
+  const connect = async (simulator: B2500Simulator) => {
+    const manager = new BLEDeviceManager({
+      bluetooth: simulator.bluetooth.asBluetooth(),
+      deviceStore: new MemoryDeviceStore(),
+      logger: () => {},
+    });
+    await manager.connect();
+    return manager;
+  };
+
+  it("should answer queries with the simulated state", async () => {
+    const simulator = new B2500Simulator({
+      state: { remainingCapacity: 1680, temperature: 21 },
+    });
+    simulator.setSolarPower(300, 150);
+    simulator.tick(1);
+    const manager = await connect(simulator);
+
+    const runtime = await manager.getRuntimeInfo();
+    expect(runtime).toMatchObject({
+      in1Active: { active: true },
+      in1Power: 300,
+      in2Power: 150,
+      soc: 750,
+      dod: 90,
+      dischargeThreshold: 100,
+      temperatureLow: 210,
+      dischargeSetting: { out1Enable: true, out2Enable: true },
+    });
+    expect(runtime).toEqual(simulator.getRuntimeInfo());
+
+    await expect(manager.getDeviceInfo()).resolves.toMatchObject({
+      type: "HMA-1",
+      mac: "E8:8D:A6:00:00:01",
+    });
+    await expect(manager.getWifiInfo()).resolves.toMatchObject({
+      ssid: "SimulatedNetwork",
+      signal: -55,
+    });
+    await expect(manager.getTimers()).resolves.toEqual(
+      simulator.getTimerSchedule(),
+    );
+
+    const cells = await manager.getCellInfo();
+    expect(cells).toEqual(simulator.getCellInfo());
+    expect(cells?.cellVoltages).toHaveLength(B2500Simulator.CELL_COUNT);
+    manager.disconnect();
+  });
+
+  it("should apply set commands", async () => {
+    const simulator = new B2500Simulator();
+    const manager = await connect(simulator);
+    const timer = {
+      enabled: true,
+      start: { hour: 8, minute: 0 },
+      end: { hour: 18, minute: 30 },
+      outputPower: 350,
+    };
+
+    await manager.setDepthOfDischarge(80);
+    await manager.setDischargeThreshold(250);
+    await manager.setLoadFirst(true);
+    await manager.setOutputs({ out2: false });
+    await manager.setTimers([timer]);
+    await manager.syncClock(new Date(Date.UTC(2024, 5, 1, 12, 34, 56)), {
+      timeZone: "UTC",
+    });
+
+    expect(simulator.getState()).toMatchObject({
+      dod: 80,
+      dischargeThreshold: 250,
+      loadFirst: true,
+      outputsEnabled: [true, false],
+      adaptiveMode: false,
+      clock: { year: 2024, month: 6, day: 1, hour: 12, minute: 34 },
+    });
+    expect(simulator.getState().timers[0]).toEqual(timer);
+
+    await manager.enableAdaptiveMode();
+    expect(simulator.getState().adaptiveMode).toBe(true);
+    manager.disconnect();
+  });
+
+  it("should charge the battery from solar power", () => {
+    const simulator = new B2500Simulator({
+      state: { remainingCapacity: 1000, dischargeThreshold: 100 },
+    });
+    simulator.setSolarPower(400, 200);
+
+    simulator.tick(3600);
+
+    // Charge first: all solar power goes into the battery
+    const state = simulator.getState();
+    expect(state.remainingCapacity).toBeCloseTo(1600);
+    expect(state.outputPower).toEqual([0, 0]);
+    expect(state.dailyBatteryCharge).toBeCloseTo(600);
+  });
+
+  it("should discharge the battery down to the depth of discharge", () => {
+    const simulator = new B2500Simulator({
+      state: {
+        capacity: 2000,
+        remainingCapacity: 800,
+        dod: 80,
+        timers: [
+          {
+            enabled: true,
+            start: { hour: 0, minute: 0 },
+            end: { hour: 23, minute: 59 },
+            outputPower: 200,
+          },
+        ],
+        clock: { year: 2024, month: 6, day: 1, hour: 20, minute: 0, second: 0 },
+      },
+    });
+
+    simulator.tick(3600);
+    expect(simulator.getState().remainingCapacity).toBeCloseTo(600);
+    expect(simulator.getState().outputPower).toEqual([100, 100]);
+
+    // 20% of 2000 Wh are kept in reserve
+    simulator.tick(3600);
+    simulator.tick(3600);
+    expect(simulator.getState().remainingCapacity).toBeCloseTo(400);
+    expect(simulator.getState().outputPower).toEqual([0, 0]);
+  });
+
+  it("should pass solar power through when the battery is full", () => {
+    const simulator = new B2500Simulator({
+      state: { remainingCapacity: B2500Simulator.DEFAULT_CAPACITY },
+    });
+    simulator.setSolarPower(500);
+
+    simulator.tick(60);
+
+    const state = simulator.getState();
+    expect(state.remainingCapacity).toBe(B2500Simulator.DEFAULT_CAPACITY);
+    expect(state.inputPower).toEqual([200, 0]);
+    expect(state.outputPower).toEqual([100, 100]);
+    expect(simulator.getRuntimeInfo().in1Active).toEqual({
+      active: true,
+      transparent: true,
+    });
+  });
+});
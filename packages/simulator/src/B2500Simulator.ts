@@ -0,0 +1,487 @@
+/**
+ * B2500Simulator - A virtual B2500 battery that speaks the HM protocol
+ *
+ * The simulator keeps the device state, answers queries with correctly
+ * encoded frames, applies set commands and runs a simple energy model so
+ * the SOC follows the charge and discharge power. It is exposed as a
+ * FakeBluetooth device, so BLEDeviceManager can connect to it through the
+ * `bluetooth` option without any hardware.
+ */
+import {
+  COMMAND_TYPES,
+  CellInfo,
+  CellInfoFormat,
+  DEVICE_REGION_LABELS,
+  DEVICE_SCENE_LABELS,
+  DeviceDateTime,
+  DeviceRegion,
+  DeviceScene,
+  EXTERNAL_CONNECTION_LABELS,
+  ExternalConnection,
+  HMDeviceProtocol,
+  OUTPUT_STATE_LABELS,
+  OutputState,
+  RuntimeInfo,
+  TimerInfo,
+  TimerSchedule,
+} from "@tomquist/hmjs-protocol";
+import { FakeBluetooth, FakeBluetoothDevice } from "@tomquist/hmjs-ble/testing";
+import { B2500SimulatorOptions, SimulatorState } from "./types.js";
+
+const SECONDS_PER_HOUR = 3600;
+
+const toTimestamp = (dateTime: DeviceDateTime) =>
+  Date.UTC(
+    dateTime.year,
+    dateTime.month - 1,
+    dateTime.day,
+    dateTime.hour,
+    dateTime.minute,
+    dateTime.second,
+  );
+
+const fromTimestamp = (timestamp: number): DeviceDateTime => {
+  const date = new Date(timestamp);
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+    second: date.getUTCSeconds(),
+  };
+};
+
+class B2500Simulator {
+  // Usable capacity of a B2500 in Wh
+  static readonly DEFAULT_CAPACITY = 2240;
+  // Cell voltage range of the LiFePO4 pack in mV, empty to full
+  static readonly CELL_VOLTAGE_EMPTY = 3000;
+  static readonly CELL_VOLTAGE_FULL = 3350;
+  // Number of cells reported by Cell Info (0x0F)
+  static readonly CELL_COUNT = 14;
+
+  /** Fake Web Bluetooth the device is registered with */
+  public readonly bluetooth: FakeBluetooth;
+  /** The simulated device */
+  public readonly device: FakeBluetoothDevice;
+
+  private state: SimulatorState;
+  private protocol = new HMDeviceProtocol({ logger: () => {} });
+  private timer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(options: B2500SimulatorOptions = {}) {
+    this.state = { ...B2500Simulator.createDefaultState(), ...options.state };
+    this.bluetooth = options.bluetooth ?? new FakeBluetooth();
+    this.device = this.bluetooth.addDevice({
+      name: options.name ?? "HM_B2500_SIM",
+      responseDelay: options.responseDelay,
+    });
+    this._registerHandlers();
+  }
+
+  /**
+   * Create the state of a freshly set up device
+   */
+  static createDefaultState(): SimulatorState {
+    const now = new Date();
+    return {
+      deviceType: "HMA-1",
+      deviceId: "0123456789abcdef01234567",
+      mac: "e88da6000001",
+      devVersion: 220,
+      region: DeviceRegion.EU,
+      capacity: B2500Simulator.DEFAULT_CAPACITY,
+      remainingCapacity: B2500Simulator.DEFAULT_CAPACITY / 2,
+      temperature: 25,
+      solarPower: [0, 0],
+      loadPower: 200,
+      loadFirst: false,
+      outputsEnabled: [true, true],
+      dod: 90,
+      dischargeThreshold: 100,
+      adaptiveMode: false,
+      timers: [
+        {
+          enabled: true,
+          start: { hour: 0, minute: 0 },
+          end: { hour: 23, minute: 59 },
+          outputPower: 200,
+        },
+        ...Array.from({ length: 4 }, () => ({
+          enabled: false,
+          start: { hour: 0, minute: 0 },
+          end: { hour: 0, minute: 0 },
+          outputPower: 0,
+        })),
+      ],
+      clock: fromTimestamp(now.getTime() - now.getTimezoneOffset() * 60 * 1000),
+      wifiSsid: "SimulatedNetwork",
+      wifiRssi: -55,
+      wifiConnected: true,
+      mqttConnected: false,
+      inputPower: [0, 0],
+      outputPower: [0, 0],
+      passThrough: false,
+      dailyBatteryCharge: 0,
+      dailyBatteryDischarge: 0,
+      dailyLoadCharge: 0,
+      dailyLoadDischarge: 0,
+    };
+  }
+
+  /**
+   * Get a snapshot of the simulated state
+   */
+  public getState(): SimulatorState {
+    return structuredClone(this.state);
+  }
+
+  /**
+   * Change parts of the simulated state, e.g. to inject a low battery
+   * @param changes State fields to overwrite
+   */
+  public update(changes: Partial<SimulatorState>): void {
+    this.state = { ...this.state, ...changes };
+  }
+
+  /**
+   * Set the solar power available on the inputs
+   * @param input1 Power on input 1 (W)
+   * @param input2 Power on input 2 (W)
+   */
+  public setSolarPower(input1: number, input2: number = 0): void {
+    this.state.solarPower = [input1, input2];
+  }
+
+  /**
+   * Advance the simulation: move the clock forward and let energy flow
+   * between the inputs, the battery and the outputs
+   * @param seconds Simulated time to advance
+   */
+  public tick(seconds: number): void {
+    const state = this.state;
+    const hours = seconds / SECONDS_PER_HOUR;
+    const solar = state.solarPower[0] + state.solarPower[1];
+    const reserve = (state.capacity * (100 - state.dod)) / 100;
+    const full = state.remainingCapacity >= state.capacity;
+
+    const demand = this._outputDemand();
+    const solarToLoad = state.loadFirst || full ? Math.min(solar, demand) : 0;
+    const canDischarge =
+      state.remainingCapacity > reserve && solar < state.dischargeThreshold;
+    const batteryToLoad = canDischarge
+      ? Math.min(
+          demand - solarToLoad,
+          (state.remainingCapacity - reserve) / hours,
+        )
+      : 0;
+    const solarToBattery = full
+      ? 0
+      : Math.min(
+          solar - solarToLoad,
+          (state.capacity - state.remainingCapacity) / hours,
+        );
+
+    const output = solarToLoad + batteryToLoad;
+    const usedSolar = solarToLoad + solarToBattery;
+    state.remainingCapacity = Math.min(
+      state.capacity,
+      Math.max(
+        0,
+        state.remainingCapacity + (solarToBattery - batteryToLoad) * hours,
+      ),
+    );
+
+    state.inputPower = state.solarPower.map((power) =>
+      solar > 0 ? Math.round((usedSolar * power) / solar) : 0,
+    ) as [number, number];
+    const enabledOutputs = state.outputsEnabled.filter(Boolean).length;
+    state.outputPower = state.outputsEnabled.map((enabled) =>
+      enabled ? Math.round(output / enabledOutputs) : 0,
+    ) as [number, number];
+    state.passThrough = solarToLoad > 0;
+
+    const previousDay = state.clock.day;
+    state.clock = fromTimestamp(toTimestamp(state.clock) + seconds * 1000);
+    if (state.clock.day !== previousDay) {
+      state.dailyBatteryCharge = 0;
+      state.dailyBatteryDischarge = 0;
+      state.dailyLoadCharge = 0;
+      state.dailyLoadDischarge = 0;
+    } else {
+      state.dailyBatteryCharge += solarToBattery * hours;
+      state.dailyBatteryDischarge += batteryToLoad * hours;
+      state.dailyLoadCharge += usedSolar * hours;
+      state.dailyLoadDischarge += output * hours;
+    }
+  }
+
+  /**
+   * Run the simulation in real time
+   * @param interval Tick interval in milliseconds (default: 1000)
+   * @param speed Simulated seconds per real second (default: 1)
+   */
+  public start(interval: number = 1000, speed: number = 1): void {
+    this.stop();
+    this.timer = setInterval(
+      () => this.tick((interval / 1000) * speed),
+      interval,
+    );
+  }
+
+  /**
+   * Stop running the simulation in real time
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Get the runtime info the device currently reports
+   */
+  public getRuntimeInfo(): RuntimeInfo {
+    const state = this.state;
+    const soc = Math.round((state.remainingCapacity / state.capacity) * 1000);
+    const input = (index: 0 | 1) => ({
+      active: state.solarPower[index] > 0,
+      transparent: state.passThrough && state.inputPower[index] > 0,
+    });
+    const outputState = (index: 0 | 1) =>
+      state.outputPower[index] > 0 ? OutputState.Active : OutputState.Inactive;
+
+    return {
+      head: HMDeviceProtocol.START_BYTE,
+      dataLength: HMDeviceProtocol.RUNTIME_INFO_SIZE + 5,
+      cntl: HMDeviceProtocol.IDENTIFIER_BYTE,
+      command: COMMAND_TYPES.RUNTIME_INFO,
+      in1Active: input(0),
+      in2Active: input(1),
+      in1Power: state.inputPower[0],
+      in2Power: state.inputPower[1],
+      soc,
+      devVersion: state.devVersion,
+      deviceSubVersion: 0,
+      chargeMode: { loadFirst: state.loadFirst, reserved: 0 },
+      dischargeSetting: {
+        out1Enable: state.outputsEnabled[0],
+        out2Enable: state.outputsEnabled[1],
+        reserved: 0,
+      },
+      wifiMqttState: {
+        wifiConnected: state.wifiConnected,
+        mqttConnected: state.mqttConnected,
+      },
+      out1Active: outputState(0),
+      out2Active: outputState(1),
+      dod: state.dod,
+      dischargeThreshold: state.dischargeThreshold,
+      deviceScene: DeviceScene.Day,
+      remainingCapacity: Math.round(state.remainingCapacity),
+      out1Power: state.outputPower[0],
+      out2Power: state.outputPower[1],
+      extern1Connected: ExternalConnection.Disconnected,
+      extern2Connected: ExternalConnection.Disconnected,
+      deviceRegion: state.region,
+      time: { hour: state.clock.hour, minute: state.clock.minute },
+      // Temperatures are reported in tenths of a degree
+      temperatureLow: Math.round(state.temperature * 10),
+      temperatureHigh: Math.round((state.temperature + 1) * 10),
+      reserved1: 0,
+      out1State: this.protocol.decodeEnum(OUTPUT_STATE_LABELS, outputState(0)),
+      out2State: this.protocol.decodeEnum(OUTPUT_STATE_LABELS, outputState(1)),
+      scene: this.protocol.decodeEnum(DEVICE_SCENE_LABELS, DeviceScene.Day),
+      extern1State: this.protocol.decodeEnum(
+        EXTERNAL_CONNECTION_LABELS,
+        ExternalConnection.Disconnected,
+      ),
+      extern2State: this.protocol.decodeEnum(
+        EXTERNAL_CONNECTION_LABELS,
+        ExternalConnection.Disconnected,
+      ),
+      region: this.protocol.decodeEnum(DEVICE_REGION_LABELS, state.region),
+      // Daily totals are reported in tenths of a Wh
+      dailyTotalBatteryCharge: Math.round(state.dailyBatteryCharge * 10),
+      dailyTotalBatteryDischarge: Math.round(state.dailyBatteryDischarge * 10),
+      dailyTotalLoadCharge: Math.round(state.dailyLoadCharge * 10),
+      dailyTotalLoadDischarge: Math.round(state.dailyLoadDischarge * 10),
+    };
+  }
+
+  /**
+   * Get the cell info the device currently reports
+   */
+  public getCellInfo(): CellInfo {
+    const state = this.state;
+    const fraction = state.remainingCapacity / state.capacity;
+    const voltage =
+      B2500Simulator.CELL_VOLTAGE_EMPTY +
+      fraction *
+        (B2500Simulator.CELL_VOLTAGE_FULL - B2500Simulator.CELL_VOLTAGE_EMPTY);
+
+    return {
+      soc: Math.round(fraction * 100),
+      temperature1: Math.round(state.temperature),
+      temperature2: Math.round(state.temperature) + 1,
+      // Spread the cells by a few millivolts like a real pack
+      cellVoltages: Array.from(
+        { length: B2500Simulator.CELL_COUNT },
+        (_, index) => Math.round(voltage + (index % 3) - 1),
+      ),
+      format: CellInfoFormat.PerCell,
+      cellCount: B2500Simulator.CELL_COUNT,
+    };
+  }
+
+  /**
+   * Get the timer schedule the device currently reports
+   */
+  public getTimerSchedule(): TimerSchedule {
+    return {
+      adaptiveMode: this.state.adaptiveMode,
+      timers: structuredClone(this.state.timers),
+      smartMeter: {
+        connected: this.state.adaptiveMode,
+        power: this.state.adaptiveMode ? this.state.loadPower : 0,
+        reserved: [0, 0, 0, 0],
+      },
+    };
+  }
+
+  /**
+   * Power the outputs should deliver right now: the household consumption
+   * in adaptive mode, otherwise the power of the active timer
+   * @private
+   */
+  private _outputDemand(): number {
+    const state = this.state;
+    if (!state.outputsEnabled.some(Boolean)) return 0;
+    if (state.adaptiveMode) return state.loadPower;
+
+    const minute = state.clock.hour * 60 + state.clock.minute;
+    const timer = state.timers.find((candidate) => {
+      const start = candidate.start.hour * 60 + candidate.start.minute;
+      const end = candidate.end.hour * 60 + candidate.end.minute;
+      return (
+        candidate.enabled &&
+        (start <= end
+          ? minute >= start && minute <= end
+          : minute >= start || minute <= end)
+      );
+    });
+    return timer?.outputPower ?? 0;
+  }
+
+  /**
+   * Answer queries and apply set commands written to the device
+   * @private
+   */
+  private _registerHandlers(): void {
+    const device = this.device;
+
+    device.respond(COMMAND_TYPES.RUNTIME_INFO, () =>
+      this.protocol.encodeRuntimeInfo(this.getRuntimeInfo()),
+    );
+    device.respond(COMMAND_TYPES.DEVICE_INFO, () =>
+      this.protocol.encodeDeviceInfo({
+        type: this.state.deviceType,
+        id: this.state.deviceId,
+        mac: this.state.mac,
+      }),
+    );
+    device.respond(COMMAND_TYPES.WIFI_INFO, () =>
+      this.protocol.stringToBytes(
+        `ssid=${this.state.wifiSsid},rssi=${this.state.wifiRssi}`,
+      ),
+    );
+    device.respond(COMMAND_TYPES.GET_TIMERS, () =>
+      this.protocol.encodeTimerSchedule(this.getTimerSchedule()),
+    );
+    // The device answers cell info with a bare ASCII payload, not a frame
+    device.respond(COMMAND_TYPES.CELL_INFO, () => {
+      const payload = this.protocol.encodeCellInfo(this.getCellInfo());
+      setTimeout(() => device.notify(payload), device.responseDelay);
+      return null;
+    });
+
+    device.respond(COMMAND_TYPES.SET_DOD, (payload) => {
+      this.state.dod = payload[0];
+    });
+    device.respond(COMMAND_TYPES.SET_DISCHARGE_THRESHOLD, (payload) => {
+      this.state.dischargeThreshold = payload[0] | (payload[1] << 8);
+    });
+    device.respond(COMMAND_TYPES.SET_LOAD_FIRST, (payload) => {
+      this.state.loadFirst = !!(payload[0] & 0x01);
+    });
+    device.respond(COMMAND_TYPES.SET_POWER_OUT, (payload) => {
+      this.state.outputsEnabled = [
+        !!(payload[0] & 0x01),
+        !!(payload[0] & 0x02),
+      ];
+    });
+    device.respond(COMMAND_TYPES.ENABLE_ADAPTIVE_MODE, () => {
+      this.state.adaptiveMode = true;
+    });
+    device.respond(COMMAND_TYPES.SET_TIMERS, (payload) => {
+      this._applyTimers(payload);
+    });
+    device.respond(COMMAND_TYPES.SET_DATE_TIME, (payload) => {
+      this.state.clock = {
+        year: 2000 + payload[0],
+        month: payload[1],
+        day: payload[2],
+        hour: payload[3],
+        minute: payload[4],
+        second: payload[5],
+      };
+    });
+    device.respond(COMMAND_TYPES.SET_REGION, (payload) => {
+      this.state.region = payload[0];
+    });
+    device.respond(COMMAND_TYPES.REBOOT, () => {
+      setTimeout(() => device.disconnect(), device.responseDelay);
+    });
+    device.respond(COMMAND_TYPES.FACTORY_RESET, () => {
+      const defaults = B2500Simulator.createDefaultState();
+      this.update({
+        loadFirst: defaults.loadFirst,
+        outputsEnabled: defaults.outputsEnabled,
+        dod: defaults.dod,
+        dischargeThreshold: defaults.dischargeThreshold,
+        adaptiveMode: defaults.adaptiveMode,
+        timers: defaults.timers,
+      });
+      setTimeout(() => device.disconnect(), device.responseDelay);
+    });
+  }
+
+  /**
+   * Store the timers of a Set Timers payload and leave adaptive mode
+   * @private
+   */
+  private _applyTimers(payload: Uint8Array): void {
+    const view = new DataView(
+      payload.buffer,
+      payload.byteOffset,
+      payload.byteLength,
+    );
+    const count = Math.floor(payload.length / HMDeviceProtocol.TIMER_INFO_SIZE);
+    for (let index = 0; index < count; index++) {
+      const offset = index * HMDeviceProtocol.TIMER_INFO_SIZE;
+      const timer: TimerInfo = {
+        enabled: payload[offset] !== 0,
+        start: { hour: payload[offset + 1], minute: payload[offset + 2] },
+        end: { hour: payload[offset + 3], minute: payload[offset + 4] },
+        outputPower: view.getUint16(offset + 5, true),
+      };
+      this.state.timers[index] = timer;
+    }
+    this.state.adaptiveMode = false;
+  }
+}
+
+export { B2500Simulator };
+export type { B2500SimulatorOptions, SimulatorState };
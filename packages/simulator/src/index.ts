@@ -0,0 +1,12 @@
+/**
+ * HM Device Simulator - Main entry point
+ *
+ * This package provides a virtual B2500 that answers the HM protocol over an
+ * in-memory Web Bluetooth implementation, for development without hardware.
+ */
+
+// Export the simulator
+export { B2500Simulator } from "./B2500Simulator.js";
+
+// Export simulator types
+export type { SimulatorState, B2500SimulatorOptions } from "./types.js";
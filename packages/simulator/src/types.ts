@@ -0,0 +1,92 @@
+/**
+ * Type definitions for the B2500 simulator
+ */
+import type {
+  DeviceDateTime,
+  DeviceRegion,
+  TimerInfo,
+} from "@tomquist/hmjs-protocol";
+import type { FakeBluetooth } from "@tomquist/hmjs-ble/testing";
+
+/**
+ * Complete state of a simulated B2500
+ */
+interface SimulatorState {
+  /** Device type reported by Device Info (0x04) */
+  deviceType: string;
+  /** Device ID reported by Device Info (0x04) */
+  deviceId: string;
+  /** MAC address reported by Device Info (0x04) */
+  mac: string;
+  /** Firmware version */
+  devVersion: number;
+  /** Region the device is configured for */
+  region: DeviceRegion;
+
+  /** Usable battery capacity (Wh) */
+  capacity: number;
+  /** Energy stored in the battery (Wh) */
+  remainingCapacity: number;
+  /** Battery temperature (°C) */
+  temperature: number;
+
+  /** Solar power available on input 1 and 2 (W) */
+  solarPower: [number, number];
+  /** Household consumption followed in adaptive mode (W) */
+  loadPower: number;
+
+  /** Whether load first (pass-through) mode is enabled */
+  loadFirst: boolean;
+  /** Whether output 1 and 2 are enabled */
+  outputsEnabled: [boolean, boolean];
+  /** Depth of discharge in percent */
+  dod: number;
+  /** Solar power below which the battery discharges (W) */
+  dischargeThreshold: number;
+  /** Whether adaptive mode is enabled */
+  adaptiveMode: boolean;
+  /** Output power timers (5) */
+  timers: TimerInfo[];
+  /** Wall-clock date and time of the device */
+  clock: DeviceDateTime;
+
+  /** SSID the WiFi module is configured for */
+  wifiSsid: string;
+  /** WiFi signal strength (dBm) */
+  wifiRssi: number;
+  /** Whether the WiFi module is connected */
+  wifiConnected: boolean;
+  /** Whether the MQTT client is connected */
+  mqttConnected: boolean;
+
+  /** Power drawn from input 1 and 2 during the last tick (W) */
+  inputPower: [number, number];
+  /** Power delivered on output 1 and 2 during the last tick (W) */
+  outputPower: [number, number];
+  /** Whether the solar inputs pass through to the outputs */
+  passThrough: boolean;
+  /** Energy charged into the battery today (Wh) */
+  dailyBatteryCharge: number;
+  /** Energy discharged from the battery today (Wh) */
+  dailyBatteryDischarge: number;
+  /** Solar energy taken in today (Wh) */
+  dailyLoadCharge: number;
+  /** Energy delivered on the outputs today (Wh) */
+  dailyLoadDischarge: number;
+}
+
+/**
+ * Options for the B2500 simulator
+ */
+interface B2500SimulatorOptions {
+  /** Fake Web Bluetooth to add the device to (default: a new instance) */
+  bluetooth?: FakeBluetooth;
+  /** Advertised device name (default: "HM_B2500_SIM") */
+  name?: string;
+  /** Delay before the device answers a request in milliseconds (default: 0) */
+  responseDelay?: number;
+  /** Initial state overrides */
+  state?: Partial<SimulatorState>;
+}
+
+export type { SimulatorState, B2500SimulatorOptions };